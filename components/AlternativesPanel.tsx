@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { ArrowRight, Loader2, Sparkles } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { AnalyzerProvider } from '../services/analyzerProvider';
+import { analyzeWithCache } from '../services/cachedAnalysis';
+import { ScanRecord } from '../services/historyStore';
+import {
+  candidateQueries,
+  Difference,
+  findCategory,
+  MIN_ALTERNATIVES,
+  RankedAlternative,
+  rankAlternatives,
+  wantsAlternatives,
+} from '../services/alternatives';
+import { Translate, useI18n } from '../i18n';
+
+interface AlternativesPanelProps {
+  result: AnalysisResult;
+  analyzer: AnalyzerProvider;
+  cacheTtlHours: number;
+  onOpen: (record: ScanRecord) => void;
+}
+
+const describeDifference = (difference: Difference, t: Translate, locale: string) => {
+  switch (difference.kind) {
+    case 'less':
+    case 'more':
+      return t(`diff.${difference.kind}`, {
+        percent: difference.percent,
+        nutrient: t(`nutrient.${difference.nutrient}`).toLocaleLowerCase(locale),
+      });
+    case 'without':
+    case 'adds':
+      return t(`diff.${difference.kind}`, { label: difference.label });
+    default:
+      return t(`diff.${difference.kind}`, { count: difference.count });
+  }
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+// "Better alternatives" under a poorly scoring result. Suggestions are analysed only
+// on request, one after another like CompareMode, and go through the scan cache so
+// each one opens as a full analysis from history.
+export const AlternativesPanel = ({ result, analyzer, cacheTtlHours, onOpen }: AlternativesPanelProps) => {
+  const { t, language, locale } = useI18n();
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [ranked, setRanked] = useState<RankedAlternative[] | null>(null);
+
+  const category = findCategory(result);
+  const queries = category ? candidateQueries(category, result) : [];
+  if (!category || !wantsAlternatives(result) || queries.length < MIN_ALTERNATIVES) return null;
+
+  const categoryName = t(`category.${category.id}`);
+
+  const findAlternatives = async () => {
+    setLoading(true);
+    setRanked(null);
+    const records: ScanRecord[] = [];
+    for (const [index, query] of queries.entries()) {
+      setProgress(index + 1);
+      try {
+        const analysis = await analyzeWithCache(analyzer, { query, language }, { ttlHours: cacheTtlHours });
+        records.push(analysis.record);
+      } catch (err) {
+        console.error(err);
+      }
+    }
+    setRanked(rankAlternatives(result, records));
+    setLoading(false);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 p-8 rounded-[2rem] shadow-sm space-y-6">
+      <div className="space-y-1">
+        <h4 className="flex items-center gap-2 text-xs font-black text-slate-700 uppercase tracking-widest">
+          <Sparkles className="w-4 h-4 text-orange-500" /> {t('alternatives.title')}
+        </h4>
+        <p className="text-sm text-slate-500 font-medium">{t('alternatives.intro', { category: categoryName })}</p>
+      </div>
+
+      {!ranked && !loading && (
+        <button
+          onClick={findAlternatives}
+          className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black uppercase tracking-[0.2em] text-xs hover:bg-black transition-all flex items-center justify-center gap-2"
+        >
+          {t('alternatives.find', { category: categoryName })} <ArrowRight className="w-4 h-4" />
+        </button>
+      )}
+
+      {loading && (
+        <p className="flex items-center justify-center gap-2 text-xs font-black text-slate-400 uppercase tracking-widest py-4">
+          <Loader2 className="w-4 h-4 animate-spin text-orange-500" /> {t('compare.progress', { current: progress, total: queries.length })}
+        </p>
+      )}
+
+      {ranked?.length === 0 && (
+        <p className="bg-rose-50 p-4 rounded-xl text-rose-700 text-sm font-bold border border-rose-100">{t('alternatives.none')}</p>
+      )}
+
+      {ranked && ranked.length > 0 && (
+        <ol className="space-y-3">
+          {ranked.map(({ record, scoreDelta, differences }) => (
+            <li key={record.id} className="border border-slate-100 p-5 rounded-3xl hover:border-orange-200 hover:shadow-md transition-all">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-2 min-w-0">
+                  <h5 className="font-bold text-slate-800">{record.result.productName}</h5>
+                  {scoreDelta !== null && (
+                    <p className={`text-[10px] font-black uppercase tracking-widest ${scoreDelta >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {t('alternatives.vsThis', { delta: formatDelta(scoreDelta) })}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-1.5">
+                    {differences.map((d, i) => (
+                      <span
+                        key={i}
+                        className={`px-2 py-0.5 rounded-lg text-[10px] font-bold border ${d.better ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-rose-50 text-rose-700 border-rose-100'}`}
+                      >
+                        {describeDifference(d, t, locale)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="shrink-0 text-center">
+                  <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('result.score')}</span>
+                  <span className="text-2xl font-black text-slate-800">{record.result.healthScore ?? '–'}</span>
+                </div>
+              </div>
+              <button
+                onClick={() => onOpen(record)}
+                className="mt-3 flex items-center gap-1 text-[10px] font-black text-orange-600 hover:text-orange-700 uppercase tracking-widest"
+              >
+                {t('alternatives.open')} <ArrowRight className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
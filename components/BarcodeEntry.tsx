@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Barcode, CheckCircle2, ScanLine } from 'lucide-react';
+import { validateBarcode } from '../services/barcode';
+import { describeProduct, lookupBarcode } from '../services/productCatalog';
+import { BarcodeScanner, isBarcodeScanSupported } from './BarcodeScanner';
+import { useI18n } from '../i18n';
+
+interface BarcodeEntryProps {
+  barcode: string;
+  onChange: (barcode: string) => void;
+  disabled?: boolean;
+}
+
+// Optional EAN-13/UPC field under the search box, with camera scanning where the
+// browser supports BarcodeDetector.
+export const BarcodeEntry = ({ barcode, onChange, disabled }: BarcodeEntryProps) => {
+  const { t } = useI18n();
+  const [scanning, setScanning] = useState(false);
+  const check = barcode.trim() ? validateBarcode(barcode) : null;
+  const product = check?.valid ? lookupBarcode(check.ean13) : undefined;
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-2">
+      <div className="flex justify-center gap-3">
+        <div className="relative">
+          <Barcode className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder={t('barcode.placeholder')}
+            value={barcode}
+            disabled={disabled}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-64 pl-9 pr-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 focus:border-orange-500 outline-none shadow-sm"
+          />
+        </div>
+        {isBarcodeScanSupported() && (
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => setScanning(true)}
+            className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:border-orange-300 hover:text-orange-600 disabled:opacity-50 transition-all shadow-sm flex items-center gap-2"
+          >
+            <ScanLine className="w-4 h-4" /> {t('barcode.scan')}
+          </button>
+        )}
+      </div>
+
+      {check && !check.valid && <p className="text-xs font-bold text-rose-600">{t(`barcode.error.${check.error}`)}</p>}
+      {check?.valid && product && (
+        <p className="text-xs font-bold text-emerald-700 flex items-center justify-center gap-1">
+          <CheckCircle2 className="w-3.5 h-3.5" /> {describeProduct(product)}
+        </p>
+      )}
+      {check?.valid && !product && (
+        <p className="text-xs font-bold text-slate-400">{t('barcode.unknown')}</p>
+      )}
+
+      {scanning && (
+        <BarcodeScanner
+          onDetected={(code) => { onChange(code); setScanning(false); }}
+          onClose={() => setScanning(false)}
+        />
+      )}
+    </div>
+  );
+};
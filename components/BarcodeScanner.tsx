@@ -0,0 +1,93 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+// Minimal typing for the Shape Detection API, which TypeScript's DOM lib does not ship yet.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+declare class BarcodeDetector {
+  constructor(options?: { formats: string[] });
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+export const isBarcodeScanSupported = () =>
+  typeof window !== 'undefined' && 'BarcodeDetector' in window && !!navigator.mediaDevices?.getUserMedia;
+
+const SCAN_INTERVAL_MS = 300;
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+// Full-screen camera preview that polls BarcodeDetector until an EAN/UPC code is read.
+export const BarcodeScanner = ({ onDetected, onClose }: BarcodeScannerProps) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) {
+          // Closed while the permission prompt was open: cleanup ran before there was a stream.
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new BarcodeDetector({ formats: ['ean_13', 'upc_a'] });
+        const tick = async () => {
+          if (stopped || !videoRef.current) return;
+          const codes = await detector.detect(videoRef.current).catch(() => []);
+          if (codes.length > 0) {
+            onDetectedRef.current(codes[0].rawValue);
+            return;
+          }
+          timer = window.setTimeout(tick, SCAN_INTERVAL_MS);
+        };
+        tick();
+      } catch (err: any) {
+        console.error(err);
+        setCameraError(t('scanner.unavailable'));
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/90 flex flex-col items-center justify-center p-6">
+      <div className="relative w-full max-w-md rounded-[2rem] overflow-hidden bg-black shadow-2xl">
+        <video ref={videoRef} muted playsInline className="w-full aspect-[3/4] object-cover" />
+        <div className="absolute inset-x-8 top-1/2 -translate-y-1/2 h-24 border-4 border-orange-500/80 rounded-2xl pointer-events-none"></div>
+        <button
+          type="button"
+          onClick={onClose}
+          aria-label={t('scanner.close')}
+          className="absolute top-4 right-4 p-2 bg-white/90 rounded-xl text-slate-700 hover:text-rose-600"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="mt-6 text-sm font-bold text-white/80">
+        {cameraError || t('scanner.hint')}
+      </p>
+    </div>
+  );
+};
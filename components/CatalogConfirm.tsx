@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { BookmarkPlus, CheckCircle2 } from 'lucide-react';
+import { CatalogProduct } from '../data/productCatalog';
+import { saveCatalogProduct } from '../services/productCatalog';
+import { MessageKey, useI18n } from '../i18n';
+
+interface CatalogConfirmProps {
+  barcode: string;
+  productName: string;
+}
+
+const FIELDS: { key: keyof Omit<CatalogProduct, 'barcode'>; label: MessageKey }[] = [
+  { key: 'brand', label: 'catalog.brand' },
+  { key: 'name', label: 'catalog.name' },
+  { key: 'variant', label: 'catalog.variant' },
+  { key: 'packSize', label: 'catalog.packSize' },
+];
+
+// Shown after an unknown barcode was analyzed: lets the user confirm what the pack
+// is so the next scan resolves from the local catalog.
+export const CatalogConfirm = ({ barcode, productName }: CatalogConfirmProps) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<CatalogProduct>({ barcode, brand: '', name: productName, variant: '', packSize: '' });
+  const [saved, setSaved] = useState(false);
+
+  if (saved) {
+    return (
+      <div className="bg-emerald-50 border border-emerald-100 p-4 rounded-3xl flex items-center gap-2 text-emerald-800 text-xs font-black uppercase tracking-widest">
+        <CheckCircle2 className="w-4 h-4" /> {t('catalog.saved', { barcode })}
+      </div>
+    );
+  }
+
+  const canSave = draft.brand.trim() && draft.name.trim();
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!canSave) return;
+        saveCatalogProduct({
+          barcode,
+          brand: draft.brand.trim(),
+          name: draft.name.trim(),
+          variant: draft.variant?.trim() || undefined,
+          packSize: draft.packSize?.trim() || undefined,
+        });
+        setSaved(true);
+      }}
+      className="bg-white border border-slate-200 p-6 rounded-3xl shadow-sm space-y-4"
+    >
+      <h4 className="flex items-center gap-2 text-xs font-black text-slate-600 uppercase tracking-widest">
+        <BookmarkPlus className="w-4 h-4 text-orange-500" /> {t('catalog.question', { barcode })}
+      </h4>
+      <div className="grid grid-cols-2 gap-3">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-[10px] font-black text-slate-400 uppercase tracking-widest space-y-1">
+            <span>{t(label)}</span>
+            <input
+              type="text"
+              value={draft[key] || ''}
+              onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+              className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold text-slate-700 normal-case tracking-normal focus:border-orange-500 outline-none"
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        type="submit"
+        disabled={!canSave}
+        className="w-full py-3 bg-slate-900 disabled:bg-slate-300 text-white rounded-2xl font-black uppercase tracking-[0.2em] text-xs hover:bg-black transition-all"
+      >
+        {t('catalog.save')}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { AlertCircle, ArrowRight, Loader2, Plus, X } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { AnalyzerProvider } from '../services/analyzerProvider';
+import { analyzeWithCache } from '../services/cachedAnalysis';
+import { buildComparison, MAX_COMPARE, MIN_COMPARE } from '../services/comparison';
+import { ComparisonView } from './ComparisonView';
+import { useI18n } from '../i18n';
+import { analysisErrorMessage } from '../i18n/errors';
+
+interface Failure {
+  query: string;
+  message: string;
+}
+
+interface CompareModeProps {
+  analyzer: AnalyzerProvider;
+  cacheTtlHours: number;
+}
+
+// Analyzes two to four products one after another (gentler on rate limits than a
+// parallel burst) and lines the successful ones up side by side. Each product goes
+// through the scan cache, so it lands in history like a single analysis.
+export const CompareMode = ({ analyzer, cacheTtlHours }: CompareModeProps) => {
+  const { t, language } = useI18n();
+  const [queries, setQueries] = useState<string[]>(['', '']);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [failures, setFailures] = useState<Failure[]>([]);
+
+  const filled = queries.map(q => q.trim()).filter(Boolean);
+
+  const runComparison = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (filled.length < MIN_COMPARE) return;
+
+    setLoading(true);
+    setResults([]);
+    setFailures([]);
+
+    const done: AnalysisResult[] = [];
+    const failed: Failure[] = [];
+    for (const [index, query] of filled.entries()) {
+      setProgress(index + 1);
+      try {
+        const analysis = await analyzeWithCache(analyzer, { query, language }, { ttlHours: cacheTtlHours });
+        done.push(analysis.record.result);
+      } catch (err) {
+        console.error(err);
+        failed.push({ query, message: analysisErrorMessage(err, t) });
+      }
+    }
+
+    setResults(done);
+    setFailures(failed);
+    setLoading(false);
+  };
+
+  const update = (index: number, value: string) => setQueries(queries.map((q, i) => (i === index ? value : q)));
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={runComparison} className="max-w-2xl mx-auto space-y-3">
+        {queries.map((q, i) => (
+          <div key={i} className="relative">
+            <input
+              type="text"
+              placeholder={t('compare.placeholder', { index: i + 1, example: i === 0 ? 'Maggi Noodles' : 'Yippee Noodles' })}
+              value={q}
+              disabled={loading}
+              onChange={(e) => update(i, e.target.value)}
+              className="w-full px-5 py-4 bg-white border border-slate-200 rounded-2xl shadow-sm focus:border-orange-500 outline-none font-medium"
+            />
+            {queries.length > MIN_COMPARE && (
+              <button
+                type="button"
+                disabled={loading}
+                onClick={() => setQueries(queries.filter((_, j) => j !== i))}
+                aria-label={t('compare.remove')}
+                className="absolute right-3 top-1/2 -translate-y-1/2 p-1.5 text-slate-400 hover:text-rose-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        <div className="flex gap-3">
+          {queries.length < MAX_COMPARE && (
+            <button
+              type="button"
+              disabled={loading}
+              onClick={() => setQueries([...queries, ''])}
+              className="px-4 py-3 bg-white border border-slate-200 rounded-2xl text-xs font-bold text-slate-500 hover:border-orange-300 hover:text-orange-600 transition-all shadow-sm flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" /> {t('compare.add')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={loading || filled.length < MIN_COMPARE}
+            className="flex-1 py-3 bg-slate-900 hover:bg-black disabled:bg-slate-300 text-white font-black rounded-2xl transition-all flex items-center justify-center gap-2 text-sm uppercase tracking-widest shadow-lg"
+          >
+            {loading
+              ? <><Loader2 className="w-4 h-4 animate-spin" /> {t('compare.progress', { current: progress, total: filled.length })}</>
+              : <>{t('compare.submit')} <ArrowRight className="w-4 h-4" /></>}
+          </button>
+        </div>
+      </form>
+
+      {failures.map((f) => (
+        <div key={f.query} className="bg-rose-50 border border-rose-100 p-4 rounded-2xl flex items-start gap-3 text-sm">
+          <AlertCircle className="w-5 h-5 text-rose-600 shrink-0" />
+          <p className="text-rose-800 font-bold">{f.query}: <span className="font-medium">{f.message}</span></p>
+        </div>
+      ))}
+
+      {!loading && results.length >= MIN_COMPARE && <ComparisonView comparison={buildComparison(results)} />}
+      {!loading && results.length === 1 && (
+        <p className="text-center text-sm font-bold text-slate-400">{t('compare.onlyOne')}</p>
+      )}
+    </div>
+  );
+};
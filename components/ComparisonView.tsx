@@ -0,0 +1,76 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { Comparison } from '../services/comparison';
+import { useI18n } from '../i18n';
+
+const STATUS_TEXT = {
+  healthy: 'text-emerald-700',
+  neutral: 'text-slate-600',
+  harmful: 'text-rose-700',
+};
+
+// Side-by-side table: headline dimensions with the winner highlighted, then every
+// ingredient aligned by row with quantities per 100g.
+export const ComparisonView = ({ comparison }: { comparison: Comparison }) => {
+  const { t } = useI18n();
+  const { products, dimensions, rows, sharedAdditives } = comparison;
+  const columns = `minmax(9rem, 1.2fr) repeat(${products.length}, minmax(8rem, 1fr))`;
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-2xl overflow-hidden">
+      <div className="p-8 overflow-x-auto">
+        <div className="grid gap-2 min-w-[36rem]" style={{ gridTemplateColumns: columns }}>
+          <div></div>
+          {products.map((p, i) => (
+            <h3 key={i} className="font-black text-slate-900 leading-tight px-3">{p.productName}</h3>
+          ))}
+
+          {dimensions.map((d) => (
+            <React.Fragment key={d.key}>
+              <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest py-3">{t(`dimension.${d.key}`)}</div>
+              {d.values.map((v, i) => {
+                const won = d.winners.includes(i);
+                return (
+                  <div
+                    key={i}
+                    className={`px-3 py-3 rounded-2xl font-black flex items-center gap-2 ${won ? 'bg-emerald-50 text-emerald-700 border border-emerald-100' : 'text-slate-700'}`}
+                  >
+                    {v === null ? <span className="text-slate-300">—</span> : `${v}${d.unit ? ` ${d.unit}` : ''}`}
+                    {won && <Trophy className="w-3.5 h-3.5" />}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+        </div>
+
+        {sharedAdditives.length > 0 && (
+          <div className="mt-8 bg-orange-50 border border-orange-100 p-5 rounded-3xl">
+            <h4 className="text-xs font-black text-orange-800 uppercase tracking-widest mb-2">{t('compare.sharedAdditives')}</h4>
+            <p className="text-sm font-bold text-orange-900">{sharedAdditives.join(', ')}</p>
+          </div>
+        )}
+
+        <h4 className="mt-10 mb-4 text-xs font-black text-slate-600 uppercase tracking-widest">{t('compare.perHundred')}</h4>
+        <div className="grid gap-x-2 min-w-[36rem] text-sm" style={{ gridTemplateColumns: columns }}>
+          {rows.map((row) => (
+            <React.Fragment key={row.key}>
+              <div className={`py-2 border-t border-slate-100 font-bold ${row.sharedBy > 1 ? 'text-slate-800' : 'text-slate-400'}`}>{row.label}</div>
+              {row.cells.map((cell, i) => (
+                <div key={i} className="py-2 px-3 border-t border-slate-100">
+                  {cell ? (
+                    <span className={`font-bold ${STATUS_TEXT[cell.ingredient.status]}`}>
+                      {cell.quantity ? `${cell.quantity.approx ? '≈' : ''}${cell.quantity.per100g} g` : cell.ingredient.quantity}
+                    </span>
+                  ) : (
+                    <span className="text-slate-300">—</span>
+                  )}
+                </div>
+              ))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
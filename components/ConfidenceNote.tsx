@@ -0,0 +1,31 @@
+import React from 'react';
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from 'lucide-react';
+import { AnalysisResult, ConfidenceLevel } from '../types';
+import { useI18n } from '../i18n';
+import { confidenceReasons } from '../i18n/confidence';
+
+const LEVEL_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'text-emerald-700 bg-emerald-50 border-emerald-100',
+  medium: 'text-orange-700 bg-orange-50 border-orange-100',
+  low: 'text-rose-700 bg-rose-50 border-rose-100',
+};
+
+const LEVEL_ICONS = { high: ShieldCheck, medium: ShieldQuestion, low: ShieldAlert };
+
+// How far the result can be trusted, from its sources and (in verify mode) whether
+// a second run agreed. Results saved before confidence existed show nothing.
+export const ConfidenceNote = ({ result }: { result: AnalysisResult }) => {
+  const { t } = useI18n();
+  if (!result.confidence) return null;
+  const { level } = result.confidence;
+  const Icon = LEVEL_ICONS[level];
+
+  return (
+    <div className={`inline-flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-2 rounded-2xl border text-xs font-bold ${LEVEL_STYLES[level]}`}>
+      <span className="flex items-center gap-1.5 font-black uppercase tracking-widest text-[10px]">
+        <Icon className="w-4 h-4" /> {t(`confidence.${level}`)}
+      </span>
+      <span className="opacity-80">{confidenceReasons(result, t)}</span>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Braces, ChevronDown, Download, FileText, Link2, Printer } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import {
+  buildHtmlReport,
+  buildJsonReport,
+  buildMarkdownReport,
+  downloadFile,
+  printHtml,
+  reportFileName,
+} from '../services/reportExport';
+import { buildShareUrl } from '../services/shareLink';
+import { useI18n } from '../i18n';
+
+type Notice = { kind: 'copied' } | { kind: 'manual'; url: string } | { kind: 'popupBlocked' };
+
+// Export and share actions under the result card. Every format is built from the
+// result in memory, so exporting never calls the analyzer again.
+export const ExportMenu = ({ result }: { result: AnalysisResult }) => {
+  const { t, language, locale } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  const run = (action: () => void | Promise<void>) => async () => {
+    setOpen(false);
+    setNotice(null);
+    await action();
+  };
+
+  const print = () => {
+    if (!printHtml(buildHtmlReport(result, { t, locale, lang: language }))) setNotice({ kind: 'popupBlocked' });
+  };
+
+  const share = async () => {
+    const url = await buildShareUrl(result);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ kind: 'copied' });
+    } catch {
+      setNotice({ kind: 'manual', url });
+    }
+  };
+
+  const actions = [
+    { label: t('export.print'), icon: Printer, onClick: run(print) },
+    {
+      label: t('export.markdown'),
+      icon: FileText,
+      onClick: run(() => downloadFile(reportFileName(result, 'md'), buildMarkdownReport(result, { t, locale }), 'text/markdown')),
+    },
+    {
+      label: t('export.json'),
+      icon: Braces,
+      onClick: run(() => downloadFile(reportFileName(result, 'json'), buildJsonReport(result), 'application/json')),
+    },
+    { label: t('export.share'), icon: Link2, onClick: run(share) },
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="relative">
+        <button
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          className="flex items-center gap-2 px-5 py-2.5 bg-white border border-slate-200 rounded-2xl text-xs font-black text-slate-600 uppercase tracking-widest hover:border-orange-300 hover:text-orange-600 transition-all shadow-sm"
+        >
+          <Download className="w-4 h-4" /> {t('export.menu')} <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+        {open && (
+          <div className="absolute left-1/2 -translate-x-1/2 mt-2 w-56 bg-white border border-slate-200 rounded-2xl shadow-xl p-1.5 z-10">
+            {actions.map(({ label, icon: Icon, onClick }) => (
+              <button
+                key={label}
+                onClick={onClick}
+                className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-xs font-bold text-slate-600 hover:bg-orange-50 hover:text-orange-700 transition-colors text-left"
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {notice?.kind === 'copied' && (
+        <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{t('export.copied')}</p>
+      )}
+      {notice?.kind === 'popupBlocked' && (
+        <p className="text-xs font-bold text-rose-600">{t('export.popupBlocked')}</p>
+      )}
+      {notice?.kind === 'manual' && (
+        <label className="w-full max-w-xl text-xs font-bold text-slate-500 space-y-1">
+          <span>{t('export.copyManually')}</span>
+          <input
+            readOnly
+            value={notice.url}
+            onFocus={(e) => e.target.select()}
+            className="w-full px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-mono text-slate-600 outline-none focus:border-orange-500"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
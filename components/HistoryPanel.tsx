@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Search, Trash2 } from 'lucide-react';
+import { deleteScan, listScans, normaliseQuery, ScanRecord } from '../services/historyStore';
+import { useI18n } from '../i18n';
+import { languageInfo } from '../i18n/languages';
+
+// Relative age in the UI language, e.g. "5 min ago" / "5 मिनट पहले"; older scans show the date.
+export const formatAge = (timestamp: number, locale: string) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style: 'short' });
+  if (minutes < 60) return relative.format(-minutes, 'minute');
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return relative.format(-hours, 'hour');
+  return new Date(timestamp).toLocaleDateString(locale);
+};
+
+const matches = (record: ScanRecord, term: string) =>
+  !term || [record.query, record.result.productName, record.barcode || '']
+    .some(text => normaliseQuery(text).includes(term));
+
+// Past scans read straight from IndexedDB, so the list works with no network.
+export const HistoryPanel = ({ onOpen }: { onOpen: (record: ScanRecord) => void }) => {
+  const { t, locale } = useI18n();
+  const [records, setRecords] = useState<ScanRecord[] | null>(null);
+  const [search, setSearch] = useState('');
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listScans().then(setRecords).catch((err) => {
+      console.error(err);
+      setLoadError(t('history.unavailable'));
+      setRecords([]);
+    });
+  }, []);
+
+  // A blocked or failing IndexedDB keeps the row and says so, like a failed load.
+  const remove = async (id: string) => {
+    try {
+      await deleteScan(id);
+    } catch (err) {
+      console.error(err);
+      setDeleteError(t('history.deleteFailed'));
+      return;
+    }
+    setDeleteError(null);
+    setRecords((current) => (current || []).filter(r => r.id !== id));
+  };
+
+  const term = normaliseQuery(search);
+  const visible = (records || []).filter(r => matches(r, term));
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      <div className="relative">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+        <input
+          type="text"
+          placeholder={t('history.search')}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full pl-11 pr-4 py-3 bg-white border border-slate-200 rounded-2xl shadow-sm focus:border-orange-500 outline-none font-medium"
+        />
+      </div>
+
+      {loadError && <p className="text-center text-sm font-bold text-rose-600">{loadError}</p>}
+      {deleteError && <p className="text-center text-sm font-bold text-rose-600">{deleteError}</p>}
+      {records && visible.length === 0 && !loadError && (
+        <p className="text-center text-sm font-bold text-slate-400 py-8">
+          {records.length === 0 ? t('history.empty') : t('history.noMatch')}
+        </p>
+      )}
+
+      {visible.map((record) => (
+        <div key={record.id} className="bg-white border border-slate-100 p-5 rounded-3xl shadow-sm hover:border-orange-200 transition-all flex items-center gap-4">
+          <button onClick={() => onOpen(record)} className="flex-1 text-left min-w-0">
+            <h6 className="font-bold text-slate-800 truncate">{record.result.productName}</h6>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1.5 mt-1">
+              <Clock className="w-3 h-3" /> {formatAge(record.createdAt, locale)} • {record.model}
+              {record.language && record.language !== 'en' && <> • {languageInfo(record.language).nativeName}</>}
+              {record.result.healthScore !== undefined && <> • {t('history.score', { score: record.result.healthScore })}</>}
+            </p>
+          </button>
+          <button
+            onClick={() => remove(record.id)}
+            aria-label={t('history.delete')}
+            className="p-2 text-slate-300 hover:text-rose-600 transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { Camera, ImagePlus, X } from 'lucide-react';
+import { LabelImage } from '../types';
+import { labelImageSrc, readLabelImage } from '../services/labelImages';
+import { useI18n } from '../i18n';
+
+interface LabelPhotoPickerProps {
+  images: LabelImage[];
+  onChange: (images: LabelImage[]) => void;
+  disabled?: boolean;
+}
+
+// Upload or capture photos of the pack's ingredient and nutrition panels. Each photo
+// is tagged with the panel it shows; tap the tag to switch it.
+export const LabelPhotoPicker = ({ images, onChange, disabled }: LabelPhotoPickerProps) => {
+  const { t } = useI18n();
+  const uploadRef = useRef<HTMLInputElement>(null);
+  const cameraRef = useRef<HTMLInputElement>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setReadError(null);
+
+    const added: LabelImage[] = [];
+    for (const file of Array.from(files)) {
+      const hasIngredients = [...images, ...added].some(img => img.panel === 'ingredients');
+      try {
+        added.push(await readLabelImage(file, hasIngredients ? 'nutrition' : 'ingredients'));
+      } catch (err: any) {
+        console.error(err);
+        setReadError(t('photo.readError', { name: file.name }));
+      }
+    }
+    onChange([...images, ...added]);
+  };
+
+  const togglePanel = (id: string) =>
+    onChange(images.map(img => img.id === id ? { ...img, panel: img.panel === 'ingredients' ? 'nutrition' : 'ingredients' } : img));
+
+  const remove = (id: string) => onChange(images.filter(img => img.id !== id));
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-3">
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => uploadRef.current?.click()}
+          className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:border-orange-300 hover:text-orange-600 disabled:opacity-50 transition-all shadow-sm flex items-center gap-2"
+        >
+          <ImagePlus className="w-4 h-4" /> {t('photo.upload')}
+        </button>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => cameraRef.current?.click()}
+          className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-500 hover:border-orange-300 hover:text-orange-600 disabled:opacity-50 transition-all shadow-sm flex items-center gap-2"
+        >
+          <Camera className="w-4 h-4" /> {t('photo.take')}
+        </button>
+        <input ref={uploadRef} type="file" accept="image/*" multiple hidden onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+        <input ref={cameraRef} type="file" accept="image/*" capture="environment" hidden onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+      </div>
+
+      {images.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-3">
+          {images.map((img) => (
+            <div key={img.id} className="relative w-24 rounded-2xl overflow-hidden border border-slate-200 bg-white shadow-sm">
+              <img src={labelImageSrc(img)} alt={t('photo.alt', { panel: t(`panel.${img.panel}`) })} className="w-24 h-24 object-cover" />
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => togglePanel(img.id)}
+                className="w-full py-1 text-[10px] font-black uppercase tracking-widest text-orange-700 bg-orange-50 hover:bg-orange-100"
+              >
+                {t(`panel.${img.panel}`)}
+              </button>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => remove(img.id)}
+                aria-label={t('photo.remove')}
+                className="absolute top-1 right-1 p-1 bg-white/90 rounded-lg text-slate-500 hover:text-rose-600"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {readError && <p className="text-xs font-bold text-rose-600">{readError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LanguageCode } from '../types';
+import { LANGUAGES } from '../i18n/languages';
+import { useI18n } from '../i18n';
+
+// Picks the UI language; new analyses are also written in it. The choice is saved.
+export const LanguageSwitcher = () => {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2">
+      <Languages className="w-4 h-4 text-orange-400" />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as LanguageCode)}
+        className="bg-white border border-slate-200 rounded-xl px-2 py-1.5 text-xs font-bold text-slate-600 focus:border-orange-500 outline-none"
+      >
+        {LANGUAGES.map((l) => (
+          <option key={l.code} value={l.code}>{l.nativeName}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
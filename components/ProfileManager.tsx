@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, UserRound } from 'lucide-react';
+import { AllergenId, DietaryProfile, DietId } from '../types';
+import { ALLERGEN_TERMS } from '../data/dietaryTerms';
+import { newProfile } from '../services/profileStore';
+import { isMatchableTerm } from '../services/dietaryCheck';
+import { useI18n } from '../i18n';
+
+const DIETS: DietId[] = ['any', 'vegetarian', 'vegan', 'jain'];
+
+const chip = (active: boolean) =>
+  `px-3 py-1.5 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-orange-300'}`;
+
+interface ProfileManagerProps {
+  profiles: DietaryProfile[];
+  onChange: (profiles: DietaryProfile[]) => void;
+}
+
+// Create and edit dietary profiles. Changes are saved as they are made.
+export const ProfileManager = ({ profiles, onChange }: ProfileManagerProps) => {
+  const { t } = useI18n();
+  const [avoidDrafts, setAvoidDrafts] = useState<Record<string, string>>({});
+  const [invalidDraft, setInvalidDraft] = useState<string | null>(null); // profile id
+
+  const update = (id: string, patch: Partial<DietaryProfile>) =>
+    onChange(profiles.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const toggleAllergen = (profile: DietaryProfile, id: AllergenId) =>
+    update(profile.id, {
+      allergens: profile.allergens.includes(id) ? profile.allergens.filter(a => a !== id) : [...profile.allergens, id],
+    });
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {profiles.length === 0 && (
+        <p className="text-center text-sm font-bold text-slate-400 py-4">
+          {t('profiles.intro')}
+        </p>
+      )}
+
+      {profiles.map((profile) => (
+        <div key={profile.id} className="bg-white border border-slate-200 p-6 rounded-3xl shadow-sm space-y-5">
+          <div className="flex items-center gap-3">
+            <UserRound className="w-5 h-5 text-orange-500 shrink-0" />
+            <input
+              type="text"
+              placeholder={t('profiles.namePlaceholder')}
+              value={profile.name}
+              onChange={(e) => update(profile.id, { name: e.target.value })}
+              className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl font-bold text-slate-800 focus:border-orange-500 outline-none"
+            />
+            <button
+              onClick={() => onChange(profiles.filter(p => p.id !== profile.id))}
+              aria-label={t('profiles.delete')}
+              className="p-2 text-slate-300 hover:text-rose-600 transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <h6 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profiles.allergies')}</h6>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ALLERGEN_TERMS) as AllergenId[]).map((id) => (
+                <button key={id} onClick={() => toggleAllergen(profile, id)} className={chip(profile.allergens.includes(id))}>
+                  {t(`allergen.${id}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h6 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profiles.diet')}</h6>
+            <div className="flex flex-wrap gap-2">
+              {DIETS.map((diet) => (
+                <button key={diet} onClick={() => update(profile.id, { diet })} className={chip(profile.diet === diet)}>
+                  {t(`diet.${diet}`)}
+                </button>
+              ))}
+              <button onClick={() => update(profile.id, { diabetic: !profile.diabetic })} className={chip(profile.diabetic)}>
+                {t('profiles.diabetic')}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h6 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t('profiles.alsoAvoid')}</h6>
+            <div className="flex flex-wrap gap-2">
+              {profile.avoid.map((item) => (
+                <button
+                  key={item}
+                  onClick={() => update(profile.id, { avoid: profile.avoid.filter(a => a !== item) })}
+                  title={t('profiles.removeItem')}
+                  className={chip(true)}
+                >
+                  {item} ×
+                </button>
+              ))}
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const item = (avoidDrafts[profile.id] || '').trim();
+                  if (!item || profile.avoid.includes(item)) return;
+                  if (!isMatchableTerm(item)) {
+                    setInvalidDraft(profile.id);
+                    return;
+                  }
+                  setInvalidDraft(null);
+                  update(profile.id, { avoid: [...profile.avoid, item] });
+                  setAvoidDrafts({ ...avoidDrafts, [profile.id]: '' });
+                }}
+              >
+                <input
+                  type="text"
+                  placeholder={t('profiles.avoidPlaceholder')}
+                  value={avoidDrafts[profile.id] || ''}
+                  onChange={(e) => {
+                    setAvoidDrafts({ ...avoidDrafts, [profile.id]: e.target.value });
+                    if (invalidDraft === profile.id) setInvalidDraft(null);
+                  }}
+                  className="px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 focus:border-orange-500 outline-none"
+                />
+              </form>
+            </div>
+            {invalidDraft === profile.id && (
+              <p className="text-xs font-bold text-rose-600">{t('profiles.avoidInvalid')}</p>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...profiles, newProfile()])}
+        className="w-full py-4 bg-white border-2 border-dashed border-slate-200 rounded-3xl text-xs font-black text-slate-400 uppercase tracking-widest hover:border-orange-300 hover:text-orange-600 transition-all flex items-center justify-center gap-2"
+      >
+        <Plus className="w-4 h-4" /> {t('profiles.add')}
+      </button>
+    </div>
+  );
+};
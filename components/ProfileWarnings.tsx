@@ -0,0 +1,53 @@
+import React from 'react';
+import { AlertTriangle, UserCheck } from 'lucide-react';
+import { DietaryIssue, ProfileWarning } from '../services/dietaryCheck';
+import { DIABETIC_SUGAR_LIMIT_G } from '../data/dietaryTerms';
+import { Translate, useI18n } from '../i18n';
+
+const describeIssue = (issue: DietaryIssue, t: Translate) =>
+  t(`issue.${issue.kind}`, {
+    term: issue.term || '',
+    allergen: issue.allergen ? t(`allergen.${issue.allergen}`) : '',
+    amount: issue.sugarG ?? '',
+    limit: DIABETIC_SUGAR_LIMIT_G,
+  });
+
+// One banner per saved profile, above the ingredient cards: red when something must
+// be avoided, amber for cautions, green when the product is clear for that person.
+export const ProfileWarnings = ({ warnings }: { warnings: ProfileWarning[] }) => {
+  const { t } = useI18n();
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-3 mb-8">
+      {warnings.map(({ profile, issues }) => {
+        const avoid = issues.some(i => i.severity === 'avoid');
+        const tone = issues.length === 0
+          ? 'bg-emerald-50 border-emerald-100 text-emerald-900'
+          : avoid ? 'bg-rose-50 border-rose-200 text-rose-900' : 'bg-amber-50 border-amber-200 text-amber-900';
+
+        return (
+          <div key={profile.id} className={`border-2 p-5 rounded-3xl ${tone}`}>
+            <h4 className="flex items-center gap-2 text-xs font-black uppercase tracking-widest mb-1">
+              {issues.length === 0 ? <UserCheck className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+              {profile.name || t('warning.unnamed')}: {issues.length === 0 ? t('warning.clear') : avoid ? t('warning.avoid') : t('warning.caution')}
+            </h4>
+            {issues.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm font-bold">
+                {issues.map((issue, idx) => (
+                  <li key={idx} className="flex gap-2">
+                    <span className={issue.severity === 'avoid' ? 'text-rose-600' : 'text-amber-600'}>•</span>
+                    <span>
+                      {describeIssue(issue, t)}
+                      {issue.ingredient && <span className="font-medium opacity-70"> — {issue.ingredient}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { HealthScoreBreakdown } from '../types';
+import { useI18n } from '../i18n';
+
+const formatContribution = (value: number) => (value > 0 ? `+${value}` : value === 0 ? '0' : `${value}`);
+
+// Lists how each nutrient moved the score away from the baseline, so the number on
+// the card can be traced back to the nutrition panel.
+export const ScoreBreakdown = ({ breakdown, score }: { breakdown: HealthScoreBreakdown; score: number }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="bg-slate-50 border border-slate-100 p-6 rounded-3xl mb-8">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className="flex items-center gap-2 text-xs font-black text-slate-600 uppercase tracking-widest">
+          <Calculator className="w-4 h-4 text-orange-500" /> {t('score.title')}
+        </h4>
+        <span className="text-[10px] font-black text-slate-500 bg-white px-2 py-0.5 rounded-lg border border-slate-200">
+          {t('score.grade', { grade: breakdown.grade, points: breakdown.nutriScorePoints })}
+        </span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+        <div className="flex justify-between font-bold text-slate-500">
+          <span>{t('score.baseline')}</span>
+          <span>{breakdown.baseline}</span>
+        </div>
+        {breakdown.components.map((c) => (
+          <div key={c.nutrient} className="flex justify-between font-bold text-slate-700">
+            <span>
+              {t(`nutrient.${c.nutrient}`)}{' '}
+              <span className="text-xs text-slate-400 font-medium">
+                {c.value === null ? t('score.notDeclared') : `${c.value}${c.unit} / 100g`}
+              </span>
+            </span>
+            <span className={c.contribution < 0 ? 'text-rose-600' : c.contribution > 0 ? 'text-emerald-600' : 'text-slate-400'}>
+              {formatContribution(c.contribution)}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between font-black text-slate-900 border-t border-slate-200 pt-2 sm:col-span-2">
+          <span>{t('score.total')}</span>
+          <span>{score}</span>
+        </div>
+      </div>
+      {breakdown.proteinCapped && (
+        <p className="mt-3 text-xs text-slate-400 font-medium">
+          {t('score.proteinCapped')}
+        </p>
+      )}
+    </div>
+  );
+};
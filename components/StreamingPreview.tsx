@@ -0,0 +1,45 @@
+import React from 'react';
+import { AlertCircle, Leaf } from 'lucide-react';
+import { PartialAnalysis } from '../services/partialAnalysis';
+import { VerdictBadges } from './VerdictBadges';
+import { useI18n } from '../i18n';
+
+// What has been read of a streamed analysis so far. Scores, nutrition and sources
+// only exist once the whole reply is in, so they wait for the full result view.
+export const StreamingPreview = ({ partial }: { partial: PartialAnalysis }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full bg-white rounded-[2.5rem] border border-slate-200 shadow-xl p-10 space-y-6 animate-in fade-in">
+      {partial.productName && <h2 className="text-3xl font-black text-slate-900 leading-tight">{partial.productName}</h2>}
+      {partial.summary && <p className="text-lg text-slate-600 font-medium leading-relaxed">{partial.summary}</p>}
+
+      {partial.ingredients.length > 0 && (
+        <div className="space-y-3">
+          <h5 className="text-xs font-black text-slate-400 uppercase tracking-widest pl-2">
+            {t('loading.ingredientsSoFar', { count: partial.ingredients.length })}
+          </h5>
+          {partial.ingredients.map((ing, idx) => {
+            const harmful = ing.status === 'harmful';
+            return (
+              <div
+                key={idx}
+                className={`p-5 rounded-3xl border shadow-sm animate-in slide-in-from-bottom-2 ${harmful ? 'bg-rose-50/30 border-rose-100' : 'bg-white border-slate-100'}`}
+              >
+                <div className="flex justify-between items-start gap-2 mb-1">
+                  <h6 className={`flex items-center gap-2 font-bold ${harmful ? 'text-rose-900' : 'text-slate-800'}`}>
+                    {harmful ? <AlertCircle className="w-4 h-4 text-rose-600 shrink-0" /> : <Leaf className="w-4 h-4 text-emerald-600 shrink-0" />}
+                    {ing.name}
+                  </h6>
+                  <span className="text-[10px] font-black text-slate-400 bg-slate-50 px-2 py-0.5 rounded-lg border border-slate-100">{ing.quantity}</span>
+                </div>
+                <p className="text-xs text-slate-500 font-medium leading-relaxed">{ing.description}</p>
+                <VerdictBadges ingredient={ing} />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Camera, Database, Globe, ShieldAlert, Sparkles } from 'lucide-react';
+import { AdditiveHazard, Ingredient } from '../types';
+import { useI18n } from '../i18n';
+import { describeConsistency } from '../i18n/confidence';
+
+const HAZARD_STYLES: Record<AdditiveHazard, string> = {
+  none: 'text-emerald-700 bg-emerald-50 border-emerald-100',
+  low: 'text-slate-500 bg-slate-50 border-slate-100',
+  moderate: 'text-orange-700 bg-orange-50 border-orange-100',
+  high: 'text-rose-700 bg-rose-50 border-rose-200',
+};
+
+// Shows which INS entries an ingredient matched, whether its status came from the
+// model or the bundled additive database, and whether the row was read off a photo.
+// Rows a verify-mode second run disagreed on are flagged as low confidence.
+export const VerdictBadges = ({ ingredient }: { ingredient: Ingredient }) => {
+  const { t } = useI18n();
+  const { additives = [], verdict, consistency } = ingredient;
+  if (!verdict) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      {additives.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {additives.map((a) => (
+            <span
+              key={a.id}
+              title={`${a.category} • ${a.limitNote}`}
+              className={`text-[10px] font-black px-2 py-0.5 rounded-lg border ${HAZARD_STYLES[a.hazard]}`}
+            >
+              {a.ins ? `INS ${a.ins} • ` : ''}{a.name} • {t(`hazard.${a.hazard}`)}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-400">
+        {ingredient.origin === 'photo' && (
+          <span className="flex items-center gap-1 text-sky-600"><Camera className="w-3 h-3" /> {t('verdict.fromPhoto')}</span>
+        )}
+        {ingredient.origin === 'web' && (
+          <span className="flex items-center gap-1"><Globe className="w-3 h-3" /> {t('verdict.fromWeb')}</span>
+        )}
+        {verdict.source === 'database' ? (
+          <span className="flex items-center gap-1 text-orange-600"><Database className="w-3 h-3" /> {t('verdict.database')}</span>
+        ) : (
+          <span className="flex items-center gap-1"><Sparkles className="w-3 h-3" /> {t('verdict.model')}</span>
+        )}
+        {verdict.source === 'database' && (
+          <span className="normal-case tracking-normal font-bold">{t('verdict.modelSaid', { status: t(`status.${verdict.modelStatus}`) })}</span>
+        )}
+        {verdict.source === 'model' && verdict.conflict && verdict.databaseStatus && (
+          <span className="normal-case tracking-normal font-bold text-orange-600">{t('verdict.databaseRates', { status: t(`status.${verdict.databaseStatus}`) })}</span>
+        )}
+        {verdict.source === 'model' && !verdict.conflict && additives.length > 0 && (
+          <span className="normal-case tracking-normal font-bold text-emerald-600">{t('verdict.confirmed')}</span>
+        )}
+      </div>
+      {consistency && (
+        <div className="flex flex-wrap items-center gap-2 px-2 py-1 rounded-lg border border-amber-200 bg-amber-50 text-[10px] font-bold text-amber-800">
+          <span className="flex items-center gap-1 font-black uppercase tracking-widest"><ShieldAlert className="w-3 h-3" /> {t('consistency.low')}</span>
+          <span>{describeConsistency(consistency, t)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+// --- Analyzer configuration ---
+// Values are inlined into the browser bundle at build time by vite.config.ts, so
+// changing them needs a rebuild. The API key is deliberately not one of them: only
+// the analysis server reads it (server/config.ts).
+import { ANALYZE_ENDPOINT } from './services/analyzerApi';
+
+// `gemini` calls Gemini directly and only runs on the server; the browser uses
+// `server` (the /api/analyze proxy) or `fixture`.
+export type ProviderId = 'gemini' | 'fixture' | 'server';
+
+export interface AnalyzerConfig {
+  provider: ProviderId;
+  model: string;
+  fixtureBaseUrl: string;
+  apiEndpoint: string;
+  cacheTtlHours: number; // repeat queries younger than this are served from scan history
+}
+
+export const DEFAULT_MODEL = 'gemini-flash-lite-latest';
+
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+const parseProvider = (value?: string): ProviderId => (value === 'fixture' ? 'fixture' : 'server');
+
+const parseTtl = (value?: string) => {
+  const hours = Number(value);
+  return value && !isNaN(hours) && hours >= 0 ? hours : DEFAULT_CACHE_TTL_HOURS;
+};
+
+export const analyzerConfig: AnalyzerConfig = {
+  provider: parseProvider(process.env.ANALYZER_PROVIDER),
+  model: process.env.ANALYZER_MODEL || DEFAULT_MODEL,
+  fixtureBaseUrl: '/fixtures',
+  apiEndpoint: ANALYZE_ENDPOINT,
+  cacheTtlHours: parseTtl(process.env.CACHE_TTL_HOURS),
+};
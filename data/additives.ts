@@ -0,0 +1,102 @@
+// --- FSSAI additive knowledge base ---
+// Bundled reference of additives permitted under the Food Safety and Standards
+// (Food Products Standards and Food Additives) Regulations, 2011, keyed by INS number
+// and the names commonly printed on Indian labels. Bump ADDITIVE_DB_VERSION whenever
+// an entry is added or re-rated so cached results can be traced back to the data.
+
+import { AdditiveHazard } from '../types';
+
+export const ADDITIVE_DB_VERSION = '2026.10.1';
+
+// A bare vitamin name is a fortificant amount ("Vitamin E 300 mg"), so vitamins only
+// count as additives when the label names them as an antioxidant.
+
+// Hazard ratings: none = no known concern; low = safe at permitted levels; moderate = worth
+// limiting, flagged in studies or for sensitive groups; high = restricted or linked to adverse effects.
+export interface AdditiveEntry {
+  id: string;
+  ins?: string; // e.g. "621", "150d"; absent for additives without an INS number
+  name: string;
+  aliases: string[];
+  category: string;
+  limitNote: string;
+  hazard: AdditiveHazard;
+}
+
+const SYNTHETIC_COLOUR_LIMIT = 'Max 100 ppm in finished food; not permitted in foods for infants or in most staple foods.';
+
+export const ADDITIVES: AdditiveEntry[] = [
+  // Colours
+  { id: 'ins-100', ins: '100', name: 'Curcumin', aliases: ['turmeric extract', 'curcumin'], category: 'Colour (natural)', limitNote: 'Permitted at GMP in most categories.', hazard: 'none' },
+  { id: 'ins-102', ins: '102', name: 'Tartrazine', aliases: ['tartrazine', 'lemon yellow'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'high' },
+  { id: 'ins-110', ins: '110', name: 'Sunset Yellow FCF', aliases: ['sunset yellow', 'sunset yellow fcf', 'orange yellow s'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'high' },
+  { id: 'ins-122', ins: '122', name: 'Carmoisine', aliases: ['carmoisine', 'azorubine'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'high' },
+  { id: 'ins-124', ins: '124', name: 'Ponceau 4R', aliases: ['ponceau 4r', 'ponceau'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'high' },
+  { id: 'ins-129', ins: '129', name: 'Allura Red AC', aliases: ['allura red'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'high' },
+  { id: 'ins-133', ins: '133', name: 'Brilliant Blue FCF', aliases: ['brilliant blue'], category: 'Colour (synthetic)', limitNote: SYNTHETIC_COLOUR_LIMIT, hazard: 'moderate' },
+  { id: 'ins-150a', ins: '150a', name: 'Plain Caramel', aliases: ['plain caramel'], category: 'Colour (caramel)', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-150c', ins: '150c', name: 'Ammonia Caramel', aliases: ['ammonia caramel'], category: 'Colour (caramel)', limitNote: 'Category-specific limits; common in sauces and soft drinks.', hazard: 'moderate' },
+  { id: 'ins-150d', ins: '150d', name: 'Sulphite Ammonia Caramel', aliases: ['sulphite ammonia caramel', 'caramel iv'], category: 'Colour (caramel)', limitNote: 'Category-specific limits; common in colas.', hazard: 'moderate' },
+  { id: 'ins-160a', ins: '160a', name: 'Beta-Carotene', aliases: ['beta carotene', 'beta-carotene'], category: 'Colour (natural)', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-160b', ins: '160b', name: 'Annatto', aliases: ['annatto', 'annatto extract', 'bixin', 'norbixin'], category: 'Colour (natural)', limitNote: 'Category-specific limits, set for bixin and norbixin.', hazard: 'low' },
+  { id: 'ins-160c', ins: '160c', name: 'Paprika Extract', aliases: ['paprika extract', 'paprika oleoresin', 'capsanthin'], category: 'Colour (natural)', limitNote: 'Permitted at GMP.', hazard: 'none' },
+
+  // Preservatives
+  { id: 'ins-202', ins: '202', name: 'Potassium Sorbate', aliases: ['potassium sorbate'], category: 'Preservative', limitNote: 'Up to 1000 ppm as sorbic acid depending on category.', hazard: 'low' },
+  { id: 'ins-211', ins: '211', name: 'Sodium Benzoate', aliases: ['sodium benzoate'], category: 'Preservative', limitNote: 'Up to 250-750 ppm as benzoic acid depending on category.', hazard: 'moderate' },
+  { id: 'ins-223', ins: '223', name: 'Sodium Metabisulphite', aliases: ['sodium metabisulphite', 'sodium metabisulfite'], category: 'Preservative', limitNote: 'Category-specific limits as SO2; must be declared for sulphite-sensitive consumers.', hazard: 'moderate' },
+  { id: 'ins-250', ins: '250', name: 'Sodium Nitrite', aliases: ['sodium nitrite'], category: 'Preservative', limitNote: 'Only in cured meat products, max 200 ppm.', hazard: 'high' },
+  { id: 'ins-282', ins: '282', name: 'Calcium Propionate', aliases: ['calcium propionate'], category: 'Preservative', limitNote: 'Bread and bakery products, max 5000 ppm.', hazard: 'low' },
+
+  // Antioxidants
+  { id: 'ins-300', ins: '300', name: 'Ascorbic Acid', aliases: ['ascorbic acid', 'antioxidant vitamin c', 'antioxidants vitamin c'], category: 'Antioxidant', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-307', ins: '307', name: 'Tocopherols', aliases: ['tocopherol', 'tocopherols', 'antioxidant vitamin e', 'antioxidants vitamin e'], category: 'Antioxidant', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-319', ins: '319', name: 'TBHQ', aliases: ['tbhq', 'tertiary butylhydroquinone', 'tert butylhydroquinone'], category: 'Antioxidant', limitNote: 'Max 200 ppm of fat content.', hazard: 'moderate' },
+  { id: 'ins-320', ins: '320', name: 'BHA', aliases: ['bha', 'butylated hydroxyanisole'], category: 'Antioxidant', limitNote: 'Max 200 ppm of fat content.', hazard: 'high' },
+  { id: 'ins-321', ins: '321', name: 'BHT', aliases: ['bht', 'butylated hydroxytoluene'], category: 'Antioxidant', limitNote: 'Max 100-200 ppm of fat content.', hazard: 'moderate' },
+
+  // Acidity regulators and raising agents
+  { id: 'ins-296', ins: '296', name: 'Malic Acid', aliases: ['malic acid'], category: 'Acidity regulator', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-330', ins: '330', name: 'Citric Acid', aliases: ['citric acid'], category: 'Acidity regulator', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-339', ins: '339', name: 'Sodium Phosphates', aliases: ['sodium phosphate', 'sodium phosphates'], category: 'Acidity regulator', limitNote: 'Category-specific limits as phosphorus.', hazard: 'moderate' },
+  { id: 'ins-451', ins: '451', name: 'Triphosphates', aliases: ['triphosphate', 'sodium tripolyphosphate'], category: 'Acidity regulator', limitNote: 'Category-specific limits as phosphorus.', hazard: 'moderate' },
+  { id: 'ins-500', ins: '500', name: 'Sodium Carbonates', aliases: ['sodium bicarbonate', 'sodium hydrogen carbonate', 'baking soda'], category: 'Raising agent', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-501', ins: '501', name: 'Potassium Carbonates', aliases: ['potassium carbonate'], category: 'Acidity regulator', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-503', ins: '503', name: 'Ammonium Carbonates', aliases: ['ammonium bicarbonate', 'ammonium hydrogen carbonate'], category: 'Raising agent', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-508', ins: '508', name: 'Potassium Chloride', aliases: ['potassium chloride'], category: 'Thickener / salt substitute', limitNote: 'Permitted at GMP.', hazard: 'low' },
+
+  // Emulsifiers, stabilisers and thickeners
+  { id: 'ins-322', ins: '322', name: 'Lecithin', aliases: ['lecithin', 'soy lecithin', 'soya lecithin', 'sunflower lecithin'], category: 'Emulsifier', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-412', ins: '412', name: 'Guar Gum', aliases: ['guar gum'], category: 'Thickener', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-415', ins: '415', name: 'Xanthan Gum', aliases: ['xanthan gum', 'xanthan'], category: 'Thickener', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-440', ins: '440', name: 'Pectins', aliases: ['pectin', 'pectins'], category: 'Gelling agent', limitNote: 'Permitted at GMP.', hazard: 'none' },
+  { id: 'ins-466', ins: '466', name: 'Carboxymethyl Cellulose', aliases: ['carboxymethyl cellulose', 'sodium carboxymethyl cellulose', 'cmc'], category: 'Stabiliser', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-471', ins: '471', name: 'Mono- and Diglycerides of Fatty Acids', aliases: ['mono and diglycerides', 'monoglycerides', 'diglycerides'], category: 'Emulsifier', limitNote: 'Permitted at GMP.', hazard: 'low' },
+  { id: 'ins-481', ins: '481', name: 'Sodium Stearoyl Lactylate', aliases: ['sodium stearoyl lactylate', 'ssl'], category: 'Emulsifier', limitNote: 'Bakery products, max 5000 ppm.', hazard: 'low' },
+  { id: 'ins-1422', ins: '1422', name: 'Acetylated Distarch Adipate', aliases: ['acetylated distarch adipate', 'modified starch'], category: 'Thickener (modified starch)', limitNote: 'Permitted at GMP.', hazard: 'low' },
+
+  // Flavour enhancers
+  { id: 'ins-621', ins: '621', name: 'Monosodium Glutamate', aliases: ['monosodium glutamate', 'msg', 'ajinomoto'], category: 'Flavour enhancer', limitNote: 'GMP; label must state "Contains added MSG. Not recommended for infants below 12 months".', hazard: 'moderate' },
+  { id: 'ins-627', ins: '627', name: 'Disodium Guanylate', aliases: ['disodium guanylate', "disodium 5' guanylate"], category: 'Flavour enhancer', limitNote: 'GMP; usually paired with glutamates.', hazard: 'moderate' },
+  { id: 'ins-631', ins: '631', name: 'Disodium Inosinate', aliases: ['disodium inosinate', "disodium 5' inosinate"], category: 'Flavour enhancer', limitNote: 'GMP; usually paired with glutamates.', hazard: 'moderate' },
+  { id: 'ins-635', ins: '635', name: 'Disodium Ribonucleotides', aliases: ['disodium ribonucleotides', "disodium 5' ribonucleotides"], category: 'Flavour enhancer', limitNote: 'GMP; usually paired with glutamates.', hazard: 'moderate' },
+  { id: 'hvp', name: 'Hydrolysed Vegetable Protein', aliases: ['hydrolysed vegetable protein', 'hydrolyzed vegetable protein', 'hvp', 'hydrolysed plant protein'], category: 'Flavour enhancer (source of free glutamate)', limitNote: 'Not an INS additive; a hidden source of glutamate, must be declared.', hazard: 'moderate' },
+
+  // Sweeteners
+  { id: 'ins-950', ins: '950', name: 'Acesulfame Potassium', aliases: ['acesulfame potassium', 'acesulfame k', 'ace k'], category: 'Sweetener', limitNote: 'Category-specific limits; label must carry the artificial sweetener declaration.', hazard: 'moderate' },
+  { id: 'ins-951', ins: '951', name: 'Aspartame', aliases: ['aspartame'], category: 'Sweetener', limitNote: 'Category-specific limits; must warn "Contains phenylalanine" and is not for children.', hazard: 'high' },
+  { id: 'ins-955', ins: '955', name: 'Sucralose', aliases: ['sucralose'], category: 'Sweetener', limitNote: 'Category-specific limits; label must carry the artificial sweetener declaration.', hazard: 'moderate' },
+  { id: 'ins-960', ins: '960', name: 'Steviol Glycosides', aliases: ['steviol glycosides', 'stevia'], category: 'Sweetener (plant-derived)', limitNote: 'Category-specific limits.', hazard: 'low' },
+];
+
+const byIns = new Map(ADDITIVES.filter(a => a.ins).map(a => [a.ins!, a]));
+
+// Looks up "150d" exactly. A code without a letter falls back to the first entry of
+// its number family ("150" -> 150a); a lettered code missing from the database matches
+// nothing, since 160b (annatto) and 160a (beta-carotene) are different additives.
+export const findAdditiveByIns = (code: string): AdditiveEntry | undefined => {
+  const normalized = code.toLowerCase();
+  const exact = byIns.get(normalized);
+  if (exact || /[a-z]$/.test(normalized)) return exact;
+  return ADDITIVES.find(a => a.ins && a.ins.replace(/[a-z]$/, '') === normalized);
+};
@@ -0,0 +1,95 @@
+// --- Dietary term dictionary ---
+// Label words (English and common Hindi/regional names) that reveal an allergen or
+// an ingredient a diet rules out. `exclude` lists phrases that contain a term but
+// do not mean it, e.g. "cocoa butter" is not dairy. `declaredTerms` only count in the
+// pack's allergen statement, where a generic "May contain nuts" covers several groups.
+
+import { AllergenId } from '../types';
+
+export interface TermGroup {
+  label: string;
+  terms: string[];
+  exclude?: string[];
+  insCodes?: string[];
+  declaredTerms?: string[];
+}
+
+export const ALLERGEN_TERMS: Record<AllergenId, TermGroup> = {
+  peanut: {
+    label: 'Peanut',
+    terms: ['peanut', 'peanuts', 'groundnut', 'groundnuts', 'moongphali', 'mungfali', 'arachis'],
+    exclude: ['nut free', 'nuts free'],
+    declaredTerms: ['nut', 'nuts'],
+  },
+  treeNuts: {
+    label: 'Tree nuts',
+    terms: ['cashew', 'kaju', 'almond', 'badam', 'pistachio', 'pista', 'walnut', 'akhrot', 'hazelnut', 'pecan', 'macadamia', 'brazil nut', 'chironji'],
+    exclude: ['nut free', 'nuts free'],
+    declaredTerms: ['nut', 'nuts'],
+  },
+  milk: {
+    label: 'Milk',
+    terms: ['milk', 'milk solids', 'milk powder', 'whey', 'casein', 'caseinate', 'lactose', 'ghee', 'butter', 'cream', 'cheese', 'paneer', 'khoa', 'khoya', 'curd', 'dahi', 'buttermilk', 'yoghurt', 'yogurt'],
+    exclude: ['coconut milk', 'cocoa butter', 'peanut butter', 'shea butter', 'cream of tartar', 'milk free', 'dairy free'],
+  },
+  gluten: {
+    label: 'Gluten',
+    terms: ['wheat', 'maida', 'atta', 'gluten', 'semolina', 'sooji', 'suji', 'rava', 'barley', 'jau', 'rye', 'malt', 'dalia', 'seitan'],
+    exclude: ['buckwheat', 'gluten free'],
+  },
+  soy: { label: 'Soy', terms: ['soy', 'soya', 'soybean', 'soyabean', 'tofu', 'edamame'] },
+  sesame: { label: 'Sesame', terms: ['sesame', 'til', 'gingelly', 'tahini'] },
+  egg: { label: 'Egg', terms: ['egg', 'eggs', 'albumin', 'albumen', 'egg yolk', 'egg white', 'ovalbumin', 'lysozyme'], exclude: ['eggless', 'egg free'], insCodes: ['1105'] },
+  fish: { label: 'Fish', terms: ['fish', 'anchovy', 'tuna', 'sardine', 'mackerel', 'fish sauce', 'fish oil', 'isinglass'] },
+  shellfish: { label: 'Shellfish', terms: ['prawn', 'shrimp', 'crab', 'lobster', 'oyster', 'mussel', 'squid', 'clam'] },
+  mustard: { label: 'Mustard', terms: ['mustard', 'sarson', 'rai'] },
+};
+
+// Animal-derived ingredients that break a vegetarian (green dot) claim.
+export const NON_VEG_TERMS: TermGroup = {
+  label: 'Non-vegetarian ingredient',
+  terms: [
+    'gelatin', 'gelatine', 'animal rennet', 'rennet', 'isinglass', 'carmine', 'cochineal', 'shellac', 'lard', 'tallow',
+    'suet', 'bone char', 'bone phosphate', 'meat', 'chicken', 'mutton', 'beef', 'pork', 'fish', 'egg', 'eggs', 'anchovy',
+    'prawn', 'shrimp', 'collagen', 'l cysteine', 'animal fat', 'cod liver oil',
+  ],
+  exclude: ['microbial rennet', 'vegetable rennet', 'vegetarian rennet', 'eggless', 'egg free', 'plant based gelatin'],
+  insCodes: ['120', '441', '542', '904', '920', '1105'],
+};
+
+// Additives that may come from fish, meat or animal fat unless the pack says otherwise.
+export const MAYBE_NON_VEG: TermGroup = {
+  label: 'Possibly animal-derived',
+  terms: ['disodium inosinate', 'natural flavour', 'natural flavor', 'mono and diglycerides'],
+  insCodes: ['631', '635', '471'],
+};
+
+export const VEGAN_EXTRA_TERMS: TermGroup = {
+  label: 'Dairy or bee product',
+  terms: [...ALLERGEN_TERMS.milk.terms, 'honey', 'shahad', 'beeswax'],
+  exclude: ALLERGEN_TERMS.milk.exclude,
+  insCodes: ['901', '966'],
+};
+
+// Jain diets avoid root vegetables and bulbs (dry ginger is accepted), honey and yeast.
+export const JAIN_EXTRA_TERMS: TermGroup = {
+  label: 'Not Jain-friendly',
+  terms: [
+    'onion', 'pyaz', 'pyaaz', 'garlic', 'lahsun', 'lehsun', 'potato', 'aloo', 'carrot', 'gajar', 'beetroot', 'radish',
+    'mooli', 'ginger', 'adrak', 'sweet potato', 'shakarkand', 'yam', 'arbi', 'turmeric root', 'honey', 'yeast', 'leek', 'shallot',
+  ],
+  exclude: ['dry ginger'],
+};
+
+export const SUGAR_TERMS: TermGroup = {
+  label: 'Added sugar',
+  terms: [
+    'sugar', 'sucrose', 'glucose', 'dextrose', 'fructose', 'invert syrup', 'invert sugar', 'liquid glucose', 'corn syrup',
+    'maltodextrin', 'jaggery', 'gur', 'honey', 'shakkar', 'khand', 'maltose', 'malt extract', 'treacle', 'molasses',
+  ],
+  exclude: ['sugar free', 'no added sugar', 'sugar alcohol'],
+};
+
+// FSSAI allows a "low sugar" claim only at or below 5g per 100g; diabetic profiles are
+// warned above that.
+export const DIABETIC_SUGAR_LIMIT_G = 5;
@@ -0,0 +1,24 @@
+// --- Bundled product catalog ---
+// Seed barcodes for common Indian packs, normalised to EAN-13. Barcodes confirmed by
+// users are stored on top of these by services/productCatalog.ts.
+
+export interface CatalogProduct {
+  barcode: string;
+  brand: string;
+  name: string;
+  variant?: string;
+  packSize?: string;
+}
+
+export const BUNDLED_CATALOG: CatalogProduct[] = [
+  { barcode: '8901058000290', brand: 'Nestlé', name: 'Maggi 2-Minute Noodles', variant: 'Masala', packSize: '70 g' },
+  { barcode: '8901058001846', brand: 'Nestlé', name: 'Maggi 2-Minute Noodles', variant: 'Masala, family pack', packSize: '280 g' },
+  { barcode: '8901719101038', brand: 'Parle', name: 'Parle-G Gold Biscuits', variant: 'Original', packSize: '250 g' },
+  { barcode: '8904004400762', brand: "Haldiram's", name: 'Bhujia Sev', variant: 'Classic', packSize: '200 g' },
+  { barcode: '8904004400779', brand: "Haldiram's", name: 'Bhujia Sev', variant: 'Classic', packSize: '400 g' },
+  { barcode: '8901063012349', brand: 'Britannia', name: 'Marie Gold Biscuits', variant: 'Original', packSize: '250 g' },
+  { barcode: '8901491010108', brand: 'PepsiCo', name: 'Kurkure', variant: 'Masala Munch', packSize: '90 g' },
+  { barcode: '8901491020206', brand: 'PepsiCo', name: 'Tropicana Orange Delight', variant: 'Fruit beverage', packSize: '1 L' },
+  { barcode: '8901262110068', brand: 'Amul', name: 'Processed Cheese', variant: 'Block', packSize: '200 g' },
+  { barcode: '8901030014123', brand: 'Hindustan Unilever', name: 'Kissan Mixed Fruit Jam', variant: 'Original', packSize: '500 g' },
+];
@@ -0,0 +1,129 @@
+// --- Product categories and healthier picks ---
+// Categories are recognised from the English product name. Each lists healthier
+// products sold in India in the same aisle; services/alternatives.ts analyses them
+// and ranks the results, so an entry here is a suggestion, not a verdict.
+
+export type CategoryId =
+  | 'instantNoodles'
+  | 'namkeen'
+  | 'chips'
+  | 'biscuits'
+  | 'cereal'
+  | 'chocolate'
+  | 'juice'
+  | 'softDrinks'
+  | 'bread';
+
+export interface ProductCategory {
+  id: CategoryId;
+  brands: RegExp[]; // brand and product-line names, tested before any category's patterns
+  patterns: RegExp[]; // generic words, tested against the lower-cased product name
+  alternatives: string[]; // analyzer queries, best-known first
+}
+
+// A brand match in any category wins over a generic word, so "Kurkure Masala Munch" is
+// chips however the categories are ordered. Within each pass the first match wins, so
+// narrower categories ("oats cookies", "chocolate biscuits") come before broader ones.
+// Brand patterns that are also common words ("munch") are anchored to their maker.
+export const PRODUCT_CATEGORIES: ProductCategory[] = [
+  {
+    id: 'instantNoodles',
+    brands: [],
+    patterns: [/\bnoodles?\b/, /\bramen\b/, /\bchowmein\b/],
+    alternatives: [
+      'Maggi Nutri-licious Atta Noodles',
+      'Sunfeast Yippee Power Up Atta Noodles',
+      'Saffola Oodles Masala',
+      'Patanjali Atta Noodles',
+    ],
+  },
+  {
+    id: 'biscuits',
+    brands: [/\bmarie\b/, /\bparle-?g\b/, /\bgood ?day\b/, /\bbourbon\b/, /\boreo\b/, /\bmonaco\b/, /\bkrack ?jack\b/],
+    patterns: [/\bbiscuits?\b/, /\bcookies?\b/, /\bcrackers?\b/, /\bdigestive\b/],
+    alternatives: [
+      'Britannia NutriChoice Digestive',
+      "McVitie's Digestive",
+      'Sunfeast Farmlite Oats & Almonds',
+      'Britannia NutriChoice Ragi',
+      'Unibic Oats Cookies',
+    ],
+  },
+  {
+    id: 'cereal',
+    brands: [/\bchocos\b/],
+    patterns: [/\bcorn ?flakes\b/, /\bcereal\b/, /\bmuesli\b/, /\bgranola\b/, /\boats\b/],
+    alternatives: [
+      'Quaker Oats',
+      "Kellogg's Muesli No Added Sugar",
+      'Tata Soulfull Ragi Bites',
+      'Saffola Masala Oats',
+      "Bagrry's Oats Bran",
+    ],
+  },
+  {
+    id: 'chocolate',
+    brands: [/\bdairy milk\b/, /\bkit ?kat\b/, /\b5 star\b/, /\bnestl[eé] munch\b/, /\bcadbury perk\b/],
+    patterns: [/\bchocolate\b/],
+    alternatives: [
+      'Amul Dark Chocolate',
+      'Cadbury Bournville Dark Chocolate',
+      'Mason & Co 70% Dark Chocolate',
+      'Paul and Mike 64% Dark Chocolate',
+    ],
+  },
+  {
+    id: 'namkeen',
+    brands: [],
+    patterns: [/\bbhujia\b/, /\bnamkeen\b/, /\bmixture\b/, /\bsev\b/, /\bmoong dal\b/, /\bchivda\b/, /\bkhatta meetha\b/, /\bdal biji\b/],
+    alternatives: [
+      "Haldiram's Roasted Chana",
+      'Farmley Roasted Makhana',
+      'Too Yumm Multigrain Chips',
+      'Happilo Roasted Almonds',
+    ],
+  },
+  {
+    id: 'chips',
+    brands: [/\bkurkure\b/, /\blay'?s\b/, /\bbingo\b/, /\buncle chipps\b/, /\bpringles\b/],
+    patterns: [/\bchips\b/, /\bcrisps\b/],
+    alternatives: [
+      'Too Yumm Multigrain Chips',
+      'Farmley Peri Peri Makhana',
+      "Haldiram's Roasted Chana",
+      'Too Yumm Veggie Stix',
+    ],
+  },
+  {
+    id: 'juice',
+    brands: [/\btropicana\b/, /\breal fruit\b/],
+    patterns: [/\bjuice\b/, /\bnectar\b/, /\bfruit beverage\b/],
+    alternatives: [
+      'Real Activ 100% Orange Juice',
+      'Tropicana 100% Orange Juice',
+      'Raw Pressery Orange Juice',
+      'Paper Boat Coconut Water',
+    ],
+  },
+  {
+    id: 'softDrinks',
+    brands: [/\bthums up\b/, /\bpepsi\b/, /\bsprite\b/, /\bfanta\b/, /\bmountain dew\b/, /\b7 ?up\b/, /\blimca\b/, /\bmaaza\b/, /\bfrooti\b/, /\bslice\b/],
+    patterns: [/\bcola\b/, /\bsoft drink\b/],
+    alternatives: [
+      'Paper Boat Coconut Water',
+      'Amul Masti Spiced Buttermilk',
+      'Real Activ Coconut Water',
+      'Raw Pressery Orange Juice',
+    ],
+  },
+  {
+    id: 'bread',
+    brands: [],
+    patterns: [/\bbread\b/, /\bpav\b/],
+    alternatives: [
+      'Britannia 100% Whole Wheat Bread',
+      'Harvest Gold Multigrain Bread',
+      'Modern 100% Atta Bread',
+    ],
+  },
+];
@@ -0,0 +1,72 @@
+// --- Source domains ---
+// Known sites behind grounding sources, by kind. A source matches an entry when its
+// host is the domain or a subdomain of it. Manufacturers not listed here are still
+// recognised when the site's registered name is the product's brand, e.g. maggi.com
+// for Maggi (services/sourceCredibility.ts).
+
+import { SourceKind } from '../types';
+
+// Government bodies, regulators and standards organisations. gov.in and nic.in cover
+// FSSAI, ICMR, BIS and every other Indian government site.
+const REGULATOR_DOMAINS = [
+  'gov.in',
+  'nic.in',
+  'nin.res.in',
+  'who.int',
+  'fao.org',
+  'codexalimentarius.org',
+  'efsa.europa.eu',
+  'fda.gov',
+  'food.gov.uk',
+  'foodstandards.gov.au',
+];
+
+// Brand and parent-company sites of products sold in India.
+const MANUFACTURER_DOMAINS = [
+  'nestle.in',
+  'maggi.in',
+  'britannia.co.in',
+  'haldirams.com',
+  'itcportal.com',
+  'sunfeast.com',
+  'amul.com',
+  'pepsicoindia.co.in',
+  'tropicana.com',
+  'parleproducts.com',
+  'hul.co.in',
+  'cadburygifting.in',
+  'mondelezinternational.com',
+  'dabur.com',
+  'patanjaliayurved.net',
+  'marico.com',
+  'saffola.in',
+  'kelloggs.in',
+  'tatanutrikorner.com',
+  'tataconsumer.com',
+  'mtrfoods.com',
+  'bikaji.com',
+  'coca-colaindia.com',
+];
+
+// Online grocers and marketplaces; they copy pack text but often lag behind recipe changes.
+const RETAILER_DOMAINS = [
+  'amazon.in',
+  'amazon.com',
+  'flipkart.com',
+  'bigbasket.com',
+  'blinkit.com',
+  'zeptonow.com',
+  'swiggy.com',
+  'jiomart.com',
+  'dmart.in',
+  'naturesbasket.co.in',
+  'spencers.in',
+  'starquik.com',
+  'smartbazaar.in',
+];
+
+export const DOMAINS_BY_KIND: [Exclude<SourceKind, 'other'>, string[]][] = [
+  ['regulator', REGULATOR_DOMAINS],
+  ['manufacturer', MANUFACTURER_DOMAINS],
+  ['retailer', RETAILER_DOMAINS],
+];
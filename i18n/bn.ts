@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Bengali UI strings ---
+
+export const bn: Messages = {
+  'nav.engine': 'ফ্ল্যাশ লাইট ইঞ্জিন',
+  'nav.fssai': 'FSSAI কেন্দ্রিক',
+  'nav.language': 'ভাষা',
+
+  'hero.badge': 'ভারতের পুষ্টি ডিকোডার',
+  'hero.title': 'আর খাবেন না',
+  'hero.highlight': 'লুকোনো রাসায়নিক।',
+  'hero.subtitle': 'যেকোনো ভারতীয় স্ন্যাক, পানীয় বা প্যাকেটজাত খাবারের নাম লিখুন অথবা তার লেবেলের ছবি তুলুন, আর জেনে নিন তার আসল সত্যি।',
+
+  'mode.single': 'একটি পণ্য',
+  'mode.compare': 'তুলনা',
+  'mode.history': 'ইতিহাস',
+  'mode.profiles': 'প্রোফাইল',
+
+  'search.placeholder': 'যেমন কুরকুরে, ম্যাগি, কিষাণ জ্যাম, আমুল চিজ...',
+  'search.submit': 'যাচাই',
+
+  'loading.title': 'উপাদান বিশ্লেষণ করা হচ্ছে...',
+  'loading.engine': 'Gemini 2.5 Flash Lite দ্বারা চালিত',
+  'loading.cancel': 'বাতিল করুন',
+  'loading.ingredientsSoFar': 'এ পর্যন্ত {count}টি উপাদান পড়া হয়েছে',
+
+  'error.title': 'স্ক্যান বাধাপ্রাপ্ত',
+  'error.subtitle': 'একটি সাময়িক সমস্যা হয়েছে।',
+  'error.retry': 'আবার চেষ্টা করুন',
+  'error.rateLimit': 'অনুরোধের সীমা পেরিয়ে গেছে। Gemini Flash Lite-এর সীমা বেশি, তবে API এখন ব্যস্ত থাকতে পারে। একটু অপেক্ষা করে আবার চেষ্টা করুন।',
+  'error.tooManyRequests': 'আপনি খুব দ্রুত বিশ্লেষণ পাঠাচ্ছেন। অনুগ্রহ করে {seconds} সেকেন্ড অপেক্ষা করে আবার চেষ্টা করুন।',
+  'error.generic': 'পণ্যটি স্ক্যান করার সময় কিছু ভুল হয়েছে।',
+  'error.parse': 'বিশ্লেষণ অপ্রত্যাশিত আকারে এসেছে। অনুগ্রহ করে আবার চেষ্টা করুন।',
+
+  'result.complete': 'বিশ্লেষণ সম্পূর্ণ',
+  'result.saved': 'সংরক্ষিত {age}',
+  'result.refresh': 'রিফ্রেশ',
+  'result.score': 'স্কোর',
+  'result.noNutrition': 'পুষ্টি তালিকা পাওয়া যায়নি',
+  'result.regulatoryAlert': 'নিয়ন্ত্রক সতর্কতা',
+  'result.healthy': 'স্বাস্থ্যকর ও নিরাপদ',
+  'result.concerns': 'উদ্বেগ ও রাসায়নিক',
+  'result.cleanLabel': 'পরিষ্কার লেবেল!',
+  'result.sources': 'তথ্যের উৎস',
+  'result.newAnalysis': 'নতুন বিশ্লেষণ',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'দ্রষ্টব্য: তথ্য রিয়েল-টাইমে সংগ্রহ করা হয়। অনুগ্রহ করে প্যাকেটের লেবেলের সঙ্গে মিলিয়ে নিন।',
+  'footer.additiveDb': 'অ্যাডিটিভ ডেটাবেস v{version}',
+
+  'export.menu': 'রপ্তানি',
+  'export.print': 'প্রিন্ট / PDF',
+  'export.markdown': 'Markdown রিপোর্ট',
+  'export.json': 'JSON ডেটা',
+  'export.share': 'শেয়ার লিঙ্ক কপি করুন',
+  'export.copied': 'শেয়ার লিঙ্ক কপি হয়েছে',
+  'export.copyManually': 'রিপোর্ট শেয়ার করতে এই লিঙ্কটি কপি করুন:',
+  'export.popupBlocked': 'রিপোর্ট প্রিন্ট করতে এই সাইটের পপ-আপ চালু করুন।',
+  'export.generated': 'PurePlate Bharat দ্বারা {date}-এ তৈরি',
+  'export.scoreLine': 'স্বাস্থ্য স্কোর: {score}/100',
+  'export.fssaiNotice': 'FSSAI বিজ্ঞপ্তি',
+  'export.noNotice': 'এই পণ্যের জন্য কোনো FSSAI বিজ্ঞপ্তি নেই।',
+  'export.ingredient': 'উপাদান',
+  'export.quantity': 'পরিমাণ',
+  'export.status': 'অবস্থা',
+  'export.additives': 'অ্যাডিটিভ',
+  'export.notes': 'মন্তব্য',
+  'export.noSources': 'কোনো উৎস উল্লেখ করা হয়নি।',
+
+  'share.banner': 'শেয়ার করা রিপোর্ট। এটি যেমন পাঠানো হয়েছিল ঠিক তেমনই দেখানো হচ্ছে এবং আপনার ইতিহাসে সংরক্ষিত হয় না।',
+  'share.error.corrupt': 'এই শেয়ার লিঙ্কটি অসম্পূর্ণ বা ক্ষতিগ্রস্ত।',
+  'share.error.unsupportedVersion': 'এই শেয়ার লিঙ্কটি PurePlate Bharat-এর নতুন সংস্করণে তৈরি।',
+
+  'score.title': 'এই স্কোর কীভাবে হিসাব করা হয়েছে',
+  'score.grade': 'Nutri-Score {grade} • {points} পয়েন্ট',
+  'score.baseline': 'ভিত্তি',
+  'score.notDeclared': 'ঘোষিত নয়',
+  'score.total': 'স্বাস্থ্য স্কোর',
+  'score.proteinCapped': 'শক্তি, চিনি, সম্পৃক্ত চর্বি ও সোডিয়ামের জরিমানা বেশি হওয়ায় প্রোটিনের পয়েন্ট যোগ করা হয়নি।',
+
+  'nutrient.energyKcal': 'শক্তি',
+  'nutrient.sugarG': 'চিনি',
+  'nutrient.saturatedFatG': 'সম্পৃক্ত চর্বি',
+  'nutrient.sodiumMg': 'সোডিয়াম',
+  'nutrient.fibreG': 'ফাইবার',
+  'nutrient.proteinG': 'প্রোটিন',
+  'nutrient.fruitVegPercent': 'ফল / সবজি',
+
+  'status.healthy': 'স্বাস্থ্যকর',
+  'status.neutral': 'নিরপেক্ষ',
+  'status.harmful': 'ক্ষতিকর',
+
+  'hazard.none': 'কোনো ঝুঁকি নেই',
+  'hazard.low': 'কম ঝুঁকি',
+  'hazard.moderate': 'মাঝারি ঝুঁকি',
+  'hazard.high': 'উচ্চ ঝুঁকি',
+
+  'verdict.fromPhoto': 'লেবেলের ছবি থেকে',
+  'verdict.fromWeb': 'ওয়েব অনুসন্ধান থেকে',
+  'verdict.database': 'রায়: INS ডেটাবেস',
+  'verdict.model': 'রায়: AI মডেল',
+  'verdict.modelSaid': 'AI বলেছে {status}',
+  'verdict.databaseRates': 'INS ডেটাবেস এটিকে {status} বলে',
+  'verdict.confirmed': 'INS ডেটাবেস দ্বারা নিশ্চিত',
+
+  'consistency.low': 'কম নির্ভরযোগ্যতা',
+  'consistency.quantity': 'অন্য রানে: {quantity}',
+  'consistency.status': 'অন্য রানে: {status}',
+  'consistency.missing': 'অন্য রানে পাওয়া যায়নি',
+
+  'confidence.high': 'উচ্চ নির্ভরযোগ্যতা',
+  'confidence.medium': 'মাঝারি নির্ভরযোগ্যতা',
+  'confidence.low': 'কম নির্ভরযোগ্যতা',
+
+  'confidence.reason.photoLabel': 'উপাদানগুলি আপনার লেবেলের ছবি থেকে পড়া হয়েছে',
+  'confidence.reason.regulatorSource': 'সরকারি বা নিয়ন্ত্রক সূত্রে সমর্থিত',
+  'confidence.reason.manufacturerSource': 'প্রস্তুতকারকের নিজস্ব সাইটে সমর্থিত',
+  'confidence.reason.retailerSource': 'সূত্রগুলি কেবল অনলাইন বিক্রেতা',
+  'confidence.reason.weakSources': 'কোনো সরকারি বা প্রস্তুতকারকের সূত্র পাওয়া যায়নি',
+  'confidence.reason.noSources': 'কোনো ওয়েব সূত্র উল্লেখ করা হয়নি',
+  'confidence.reason.runsAgree': 'দ্বিতীয় রান প্রতিটি উপাদানে একমত হয়েছে',
+  'confidence.reason.runsDisagree': 'দ্বিতীয় রান {count}টি উপাদানে ভিন্নমত দিয়েছে',
+
+  'source.kind.regulator': 'নিয়ন্ত্রক',
+  'source.kind.manufacturer': 'প্রস্তুতকারক',
+  'source.kind.retailer': 'বিক্রেতা',
+  'source.kind.other': 'অন্যান্য',
+
+  'verify.toggle': 'দ্বিতীয় রান দিয়ে যাচাই করুন',
+  'verify.hint': 'বিশ্লেষণ দুবার চালায় এবং যেসব উপাদানের পরিমাণ বা অবস্থা বদলেছে সেগুলি চিহ্নিত করে। ধীর, এবং দুটি বিশ্লেষণ লাগে।',
+
+  'photo.upload': 'লেবেলের ছবি আপলোড করুন',
+  'photo.take': 'ছবি তুলুন',
+  'photo.remove': 'ছবি সরান',
+  'photo.alt': '{panel} প্যানেল',
+  'photo.readError': '"{name}" পড়া যায়নি। অনুগ্রহ করে JPEG বা PNG ছবি চেষ্টা করুন।',
+  'panel.ingredients': 'উপাদান',
+  'panel.nutrition': 'পুষ্টি',
+
+  'barcode.placeholder': 'বারকোড (EAN-13 / UPC)',
+  'barcode.scan': 'স্ক্যান',
+  'barcode.unknown': 'অজানা বারকোড। আমরা ওয়েবে এটি খুঁজব।',
+  'barcode.error.digits': 'বারকোডে শুধু সংখ্যা থাকে।',
+  'barcode.error.length': 'বারকোডের নিচে ছাপা ১৩ অঙ্কের EAN বা ১২ অঙ্কের UPC লিখুন।',
+  'barcode.error.checksum': 'চেকসাম মেলেনি। অনুগ্রহ করে অঙ্কগুলি আবার দেখুন।',
+
+  'scanner.close': 'স্ক্যানার বন্ধ করুন',
+  'scanner.hint': 'ক্যামেরাটি প্যাকেটের বারকোডের দিকে ধরুন।',
+  'scanner.unavailable': 'ক্যামেরা উপলব্ধ নেই।',
+
+  'catalog.saved': 'বারকোড {barcode} আপনার ক্যাটালগে সংরক্ষিত হয়েছে',
+  'catalog.question': 'এটাই কি বারকোড {barcode}-এর প্যাকেট?',
+  'catalog.brand': 'ব্র্যান্ড',
+  'catalog.name': 'পণ্য',
+  'catalog.variant': 'ভ্যারিয়েন্ট',
+  'catalog.packSize': 'প্যাকের মাপ',
+  'catalog.save': 'নিশ্চিত করে সংরক্ষণ করুন',
+
+  'compare.placeholder': 'পণ্য {index}, যেমন {example}',
+  'compare.remove': 'পণ্য সরান',
+  'compare.add': 'পণ্য যোগ করুন',
+  'compare.submit': 'তুলনা করুন',
+  'compare.progress': '{total}-এর মধ্যে {current} বিশ্লেষণ চলছে',
+  'compare.onlyOne': 'শুধু একটি পণ্য বিশ্লেষণ করা গেছে, তাই এখনও তুলনা করার কিছু নেই।',
+  'compare.sharedAdditives': 'সাধারণ অ্যাডিটিভ',
+  'compare.perHundred': 'প্রতি 100g-এ উপাদান',
+
+  'alternatives.title': 'আরও ভালো বিকল্প',
+  'alternatives.intro': 'ভারতে বিক্রি হওয়া অন্যান্য {category}, বিশ্লেষণ করে স্বাস্থ্য স্কোর অনুযায়ী সাজানো।',
+  'alternatives.find': 'স্বাস্থ্যকর {category} খুঁজুন',
+  'alternatives.none': 'এই মুহূর্তে কোনো প্রস্তাবই বিশ্লেষণ করা যায়নি।',
+  'alternatives.open': 'পূর্ণ বিশ্লেষণ',
+  'alternatives.vsThis': 'এই পণ্যের তুলনায় {delta}',
+
+  'diff.less': '{percent}% কম {nutrient}',
+  'diff.more': '{percent}% বেশি {nutrient}',
+  'diff.without': '{label} নেই',
+  'diff.adds': '{label} আছে',
+  'diff.fewerHarmful': '{count}টি কম ক্ষতিকর উপাদান',
+  'diff.moreHarmful': '{count}টি বেশি ক্ষতিকর উপাদান',
+
+  'category.instantNoodles': 'ইনস্ট্যান্ট নুডলস',
+  'category.namkeen': 'নমকিন',
+  'category.chips': 'চিপস',
+  'category.biscuits': 'বিস্কুট',
+  'category.cereal': 'প্রাতরাশের সিরিয়াল',
+  'category.chocolate': 'চকোলেট',
+  'category.juice': 'জুস',
+  'category.softDrinks': 'সফট ড্রিংক',
+  'category.bread': 'পাউরুটি',
+
+  'dimension.healthScore': 'স্বাস্থ্য স্কোর',
+  'dimension.harmfulCount': 'ক্ষতিকর উপাদান',
+  'dimension.additiveCount': 'INS অ্যাডিটিভ',
+  'dimension.sugarG': 'চিনি',
+  'dimension.saturatedFatG': 'সম্পৃক্ত চর্বি',
+  'dimension.sodiumMg': 'সোডিয়াম',
+
+  'history.search': 'আগের স্ক্যান খুঁজুন',
+  'history.unavailable': 'এই ব্রাউজারে স্ক্যানের ইতিহাস উপলব্ধ নেই।',
+  'history.empty': 'এখনও কোনো স্ক্যান নেই। বিশ্লেষিত পণ্যগুলি এখানে দেখা যাবে।',
+  'history.noMatch': 'আপনার অনুসন্ধানের সঙ্গে কোনো স্ক্যান মেলেনি।',
+  'history.score': 'স্কোর {score}',
+  'history.delete': 'স্ক্যান মুছুন',
+  'history.deleteFailed': 'স্ক্যানটি মুছে ফেলা যায়নি। আবার চেষ্টা করুন।',
+
+  'profiles.intro': 'যাদের জন্য আপনি কেনাকাটা করেন, প্রত্যেকের জন্য একটি প্রোফাইল যোগ করুন। প্রতিটি বিশ্লেষণ সব প্রোফাইলের সঙ্গে মিলিয়ে দেখা হয়।',
+  'profiles.namePlaceholder': 'নাম, যেমন ঠাকুমা বা আরভ',
+  'profiles.delete': 'প্রোফাইল মুছুন',
+  'profiles.allergies': 'অ্যালার্জি',
+  'profiles.diet': 'খাদ্যাভ্যাস',
+  'profiles.diabetic': 'ডায়াবেটিস',
+  'profiles.alsoAvoid': 'এগুলিও এড়িয়ে চলুন',
+  'profiles.removeItem': 'সরান',
+  'profiles.avoidPlaceholder': 'যেমন palm oil',
+  'profiles.avoidInvalid': 'উপাদানের নাম লিখুন; তাতে অন্তত একটি অক্ষর বা সংখ্যা থাকতে হবে।',
+  'profiles.add': 'প্রোফাইল যোগ করুন',
+
+  'diet.any': 'কোনো বিধিনিষেধ নেই',
+  'diet.vegetarian': 'নিরামিষ',
+  'diet.vegan': 'ভিগান',
+  'diet.jain': 'জৈন',
+
+  'allergen.peanut': 'চিনাবাদাম',
+  'allergen.treeNuts': 'বাদাম',
+  'allergen.milk': 'দুধ',
+  'allergen.gluten': 'গ্লুটেন',
+  'allergen.soy': 'সয়া',
+  'allergen.sesame': 'তিল',
+  'allergen.egg': 'ডিম',
+  'allergen.fish': 'মাছ',
+  'allergen.shellfish': 'খোলসযুক্ত সামুদ্রিক প্রাণী',
+  'allergen.mustard': 'সরষে',
+
+  'warning.unnamed': 'নামহীন প্রোফাইল',
+  'warning.clear': 'কোনো সংঘাত পাওয়া যায়নি',
+  'warning.avoid': 'উপযুক্ত নয়',
+  'warning.caution': 'খাওয়ার আগে যাচাই করুন',
+
+  'issue.allergen': '{allergen} আছে ({term})',
+  'issue.declared': 'প্যাকেটে ঘোষিত: {term} ({allergen})',
+  'issue.nonVegMark': 'প্যাকেটে আমিষ (বাদামি বিন্দু) চিহ্ন রয়েছে',
+  'issue.animal': 'প্রাণিজ উৎস: {term}',
+  'issue.maybeAnimal': 'প্রাণিজ উৎস হতে পারে: {term}',
+  'issue.notVegan': 'ভিগান নয়: {term}',
+  'issue.notJain': 'জৈন খাদ্যের উপযুক্ত নয়: {term}',
+  'issue.addedSugar': 'যোগ করা চিনি: {term}',
+  'issue.sugarLevel': 'প্রতি 100g-এ {amount} g চিনি (কম-চিনির সীমা {limit} g)',
+  'issue.avoidList': 'আপনার এড়ানোর তালিকায়: {term}',
+};
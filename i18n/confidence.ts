@@ -0,0 +1,21 @@
+import { AnalysisResult, ConsistencyCheck } from '../types';
+import { Translate } from './index';
+
+// One line explaining a result's confidence level, e.g. "Backed by the manufacturer's
+// own site • A second run disagreed on 2 ingredients".
+export const confidenceReasons = (result: AnalysisResult, t: Translate): string => {
+  const { confidence, verification } = result;
+  if (!confidence) return '';
+  const count = verification ? verification.changedIngredients + verification.extraIngredients : 0;
+  return confidence.reasons.map(reason => t(`confidence.reason.${reason}`, { count })).join(' • ');
+};
+
+// What the second run said instead, for a row flagged by verify mode.
+export const describeConsistency = (check: ConsistencyCheck, t: Translate): string => {
+  if (check.changed.includes('missing')) return t('consistency.missing');
+  return check.changed
+    .map(field => field === 'quantity'
+      ? t('consistency.quantity', { quantity: check.otherQuantity || '–' })
+      : t('consistency.status', { status: check.otherStatus ? t(`status.${check.otherStatus}`) : '–' }))
+    .join(' • ');
+};
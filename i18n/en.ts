@@ -0,0 +1,255 @@
+// --- English UI strings ---
+// Source catalogue: every other language must provide the same keys. `{name}`
+// placeholders are filled in by `t`.
+
+export const en = {
+  'nav.engine': 'Flash Lite Engine',
+  'nav.fssai': 'FSSAI Focused',
+  'nav.language': 'Language',
+
+  'hero.badge': "India's Nutrition Decoder",
+  'hero.title': 'Stop eating',
+  'hero.highlight': 'hidden chemicals.',
+  'hero.subtitle': 'Enter any Indian snack, beverage, or packaged food, or photograph its label, to reveal the truth behind it.',
+
+  'mode.single': 'Single product',
+  'mode.compare': 'Compare',
+  'mode.history': 'History',
+  'mode.profiles': 'Profiles',
+
+  'search.placeholder': 'e.g. Kurkure, Maggi, Kissan Jam, Amul Cheese...',
+  'search.submit': 'Check',
+
+  'loading.title': 'Analyzing Ingredients...',
+  'loading.engine': 'Powered by Gemini 2.5 Flash Lite',
+  'loading.cancel': 'Cancel',
+  'loading.ingredientsSoFar': '{count} ingredients read so far',
+
+  'error.title': 'Scan Interrupted',
+  'error.subtitle': 'We encountered a temporary issue.',
+  'error.retry': 'Try Again',
+  'error.rateLimit': 'Rate limit exceeded. Gemini Flash Lite has higher limits, but the API may still be busy. Please wait a moment and try again.',
+  'error.tooManyRequests': 'You are sending analyses too quickly. Please wait {seconds} seconds and try again.',
+  'error.generic': 'Something went wrong while scanning the product.',
+  'error.parse': 'The analysis came back in an unexpected format. Please try again.',
+
+  'result.complete': 'Analysis Complete',
+  'result.saved': 'Saved {age}',
+  'result.refresh': 'Refresh',
+  'result.score': 'Score',
+  'result.noNutrition': 'Nutrition panel not found',
+  'result.regulatoryAlert': 'Regulatory Alert',
+  'result.healthy': 'Healthy & Safe',
+  'result.concerns': 'Concerns & Chemicals',
+  'result.cleanLabel': 'Clean Label!',
+  'result.sources': 'Information Sources',
+  'result.newAnalysis': 'New Analysis',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'Note: Data is retrieved in real-time. Please cross-verify with physical packaging labels.',
+  'footer.additiveDb': 'Additive database v{version}',
+
+  'export.menu': 'Export',
+  'export.print': 'Print / PDF',
+  'export.markdown': 'Markdown report',
+  'export.json': 'JSON data',
+  'export.share': 'Copy share link',
+  'export.copied': 'Share link copied',
+  'export.copyManually': 'Copy this link to share the report:',
+  'export.popupBlocked': 'Allow pop-ups for this site to print the report.',
+  'export.generated': 'Generated {date} by PurePlate Bharat',
+  'export.scoreLine': 'Health score: {score}/100',
+  'export.fssaiNotice': 'FSSAI notice',
+  'export.noNotice': 'No FSSAI notice for this product.',
+  'export.ingredient': 'Ingredient',
+  'export.quantity': 'Quantity',
+  'export.status': 'Status',
+  'export.additives': 'Additives',
+  'export.notes': 'Notes',
+  'export.noSources': 'No sources were cited.',
+
+  'share.banner': 'Shared report. It is shown exactly as it was sent and is not saved to your history.',
+  'share.error.corrupt': 'This share link is incomplete or damaged.',
+  'share.error.unsupportedVersion': 'This share link was made by a newer version of PurePlate Bharat.',
+
+  'score.title': 'How this score was computed',
+  'score.grade': 'Nutri-Score {grade} • {points} pts',
+  'score.baseline': 'Baseline',
+  'score.notDeclared': 'not declared',
+  'score.total': 'Health score',
+  'score.proteinCapped': 'Protein is not credited because energy, sugar, saturated fat and sodium penalties are high.',
+
+  'nutrient.energyKcal': 'Energy',
+  'nutrient.sugarG': 'Sugar',
+  'nutrient.saturatedFatG': 'Saturated fat',
+  'nutrient.sodiumMg': 'Sodium',
+  'nutrient.fibreG': 'Fibre',
+  'nutrient.proteinG': 'Protein',
+  'nutrient.fruitVegPercent': 'Fruit / veg',
+
+  'status.healthy': 'healthy',
+  'status.neutral': 'neutral',
+  'status.harmful': 'harmful',
+
+  'hazard.none': 'no hazard',
+  'hazard.low': 'low hazard',
+  'hazard.moderate': 'moderate hazard',
+  'hazard.high': 'high hazard',
+
+  'verdict.fromPhoto': 'From label photo',
+  'verdict.fromWeb': 'From web search',
+  'verdict.database': 'Verdict: INS database',
+  'verdict.model': 'Verdict: AI model',
+  'verdict.modelSaid': 'AI said {status}',
+  'verdict.databaseRates': 'INS database rates this {status}',
+  'verdict.confirmed': 'Confirmed by INS database',
+
+  'consistency.low': 'Low confidence',
+  'consistency.quantity': 'Other run: {quantity}',
+  'consistency.status': 'Other run: {status}',
+  'consistency.missing': 'Missing from the other run',
+
+  'confidence.high': 'High confidence',
+  'confidence.medium': 'Medium confidence',
+  'confidence.low': 'Low confidence',
+
+  'confidence.reason.photoLabel': 'Ingredients read from your label photos',
+  'confidence.reason.regulatorSource': 'Backed by a government or regulator source',
+  'confidence.reason.manufacturerSource': "Backed by the manufacturer's own site",
+  'confidence.reason.retailerSource': 'Sources are online retailers only',
+  'confidence.reason.weakSources': 'No official or manufacturer source found',
+  'confidence.reason.noSources': 'No web sources were cited',
+  'confidence.reason.runsAgree': 'A second run agreed on every ingredient',
+  'confidence.reason.runsDisagree': 'A second run disagreed on {count} ingredients',
+
+  'source.kind.regulator': 'Regulator',
+  'source.kind.manufacturer': 'Manufacturer',
+  'source.kind.retailer': 'Retailer',
+  'source.kind.other': 'Other',
+
+  'verify.toggle': 'Verify with a second run',
+  'verify.hint': 'Runs the analysis twice and flags ingredients whose quantity or status changed. Slower, and uses two analyses.',
+
+  'photo.upload': 'Upload label photo',
+  'photo.take': 'Take photo',
+  'photo.remove': 'Remove photo',
+  'photo.alt': '{panel} panel',
+  'photo.readError': 'Could not read "{name}". Please try a JPEG or PNG image.',
+  'panel.ingredients': 'Ingredients',
+  'panel.nutrition': 'Nutrition',
+
+  'barcode.placeholder': 'Barcode (EAN-13 / UPC)',
+  'barcode.scan': 'Scan',
+  'barcode.unknown': 'Unknown barcode. We will search the web for it.',
+  'barcode.error.digits': 'Barcodes contain digits only.',
+  'barcode.error.length': 'Enter the 13-digit EAN or 12-digit UPC printed under the barcode.',
+  'barcode.error.checksum': 'Checksum does not match. Please re-check the digits.',
+
+  'scanner.close': 'Close scanner',
+  'scanner.hint': 'Point the camera at the barcode on the pack.',
+  'scanner.unavailable': 'Camera is not available.',
+
+  'catalog.saved': 'Barcode {barcode} saved to your catalog',
+  'catalog.question': 'Is this the pack with barcode {barcode}?',
+  'catalog.brand': 'Brand',
+  'catalog.name': 'Product',
+  'catalog.variant': 'Variant',
+  'catalog.packSize': 'Pack size',
+  'catalog.save': 'Confirm and save',
+
+  'compare.placeholder': 'Product {index}, e.g. {example}',
+  'compare.remove': 'Remove product',
+  'compare.add': 'Add product',
+  'compare.submit': 'Compare',
+  'compare.progress': 'Analyzing {current} of {total}',
+  'compare.onlyOne': 'Only one product could be analyzed, so there is nothing to compare yet.',
+  'compare.sharedAdditives': 'Shared additives',
+  'compare.perHundred': 'Ingredients per 100g',
+
+  'alternatives.title': 'Better alternatives',
+  'alternatives.intro': 'Other {category} sold in India, analysed and ranked by health score.',
+  'alternatives.find': 'Find healthier {category}',
+  'alternatives.none': 'None of the suggestions could be analysed right now.',
+  'alternatives.open': 'Full analysis',
+  'alternatives.vsThis': '{delta} vs this product',
+
+  'diff.less': '{percent}% less {nutrient}',
+  'diff.more': '{percent}% more {nutrient}',
+  'diff.without': 'No {label}',
+  'diff.adds': 'Contains {label}',
+  'diff.fewerHarmful': '{count} fewer harmful ingredients',
+  'diff.moreHarmful': '{count} more harmful ingredients',
+
+  'category.instantNoodles': 'instant noodles',
+  'category.namkeen': 'namkeen',
+  'category.chips': 'chips and crisps',
+  'category.biscuits': 'biscuits',
+  'category.cereal': 'breakfast cereals',
+  'category.chocolate': 'chocolates',
+  'category.juice': 'juices',
+  'category.softDrinks': 'soft drinks',
+  'category.bread': 'breads',
+
+  'dimension.healthScore': 'Health score',
+  'dimension.harmfulCount': 'Harmful ingredients',
+  'dimension.additiveCount': 'INS additives',
+  'dimension.sugarG': 'Sugar',
+  'dimension.saturatedFatG': 'Saturated fat',
+  'dimension.sodiumMg': 'Sodium',
+
+  'history.search': 'Search past scans',
+  'history.unavailable': 'Scan history is not available in this browser.',
+  'history.empty': 'No scans yet. Analyzed products will appear here.',
+  'history.noMatch': 'No scans match your search.',
+  'history.score': 'Score {score}',
+  'history.delete': 'Delete scan',
+  'history.deleteFailed': 'The scan could not be deleted. Please try again.',
+
+  'profiles.intro': 'Add a profile for each person you shop for. Every analysis is checked against all profiles.',
+  'profiles.namePlaceholder': 'Name, e.g. Dadi or Aarav',
+  'profiles.delete': 'Delete profile',
+  'profiles.allergies': 'Allergies',
+  'profiles.diet': 'Diet',
+  'profiles.diabetic': 'Diabetic',
+  'profiles.alsoAvoid': 'Also avoid',
+  'profiles.removeItem': 'Remove',
+  'profiles.avoidPlaceholder': 'e.g. palm oil',
+  'profiles.avoidInvalid': 'Type an ingredient name; it needs at least one letter or digit.',
+  'profiles.add': 'Add profile',
+
+  'diet.any': 'No restriction',
+  'diet.vegetarian': 'Vegetarian',
+  'diet.vegan': 'Vegan',
+  'diet.jain': 'Jain',
+
+  'allergen.peanut': 'Peanut',
+  'allergen.treeNuts': 'Tree nuts',
+  'allergen.milk': 'Milk',
+  'allergen.gluten': 'Gluten',
+  'allergen.soy': 'Soy',
+  'allergen.sesame': 'Sesame',
+  'allergen.egg': 'Egg',
+  'allergen.fish': 'Fish',
+  'allergen.shellfish': 'Shellfish',
+  'allergen.mustard': 'Mustard',
+
+  'warning.unnamed': 'Unnamed profile',
+  'warning.clear': 'No conflicts found',
+  'warning.avoid': 'Not suitable',
+  'warning.caution': 'Check before eating',
+
+  'issue.allergen': 'Contains {allergen} ({term})',
+  'issue.declared': 'Pack declares: {term} ({allergen})',
+  'issue.nonVegMark': 'Pack carries the non-vegetarian (brown dot) mark',
+  'issue.animal': 'Animal-derived: {term}',
+  'issue.maybeAnimal': 'May be animal-derived: {term}',
+  'issue.notVegan': 'Not vegan: {term}',
+  'issue.notJain': 'Not Jain-safe: {term}',
+  'issue.addedSugar': 'Added sugar: {term}',
+  'issue.sugarLevel': '{amount} g sugar per 100g (low-sugar limit is {limit} g)',
+  'issue.avoidList': 'On your avoid list: {term}',
+};
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, string>;
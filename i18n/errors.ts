@@ -0,0 +1,25 @@
+import { AnalysisParseError } from '../services/analysisParser';
+import { AnalyzeApiError } from '../services/analyzerApi';
+import { ShareLinkError } from '../services/shareLink';
+import { Translate } from './index';
+
+// Map a failed analysis onto a UI message by error code, never by message text.
+export const analysisErrorMessage = (err: unknown, t: Translate): string => {
+  if (err instanceof AnalysisParseError) return t('error.parse');
+  if (err instanceof AnalyzeApiError) {
+    switch (err.code) {
+      case 'RATE_LIMITED':
+        return t('error.tooManyRequests', { seconds: err.retryAfterSeconds ?? 60 });
+      case 'QUOTA_EXHAUSTED':
+        return t('error.rateLimit');
+      case 'PARSE_FAILED':
+        return t('error.parse');
+    }
+  }
+  return (err instanceof Error && err.message) || t('error.generic');
+};
+
+export const shareErrorMessage = (err: unknown, t: Translate): string =>
+  err instanceof ShareLinkError && err.code === 'UNSUPPORTED_VERSION'
+    ? t('share.error.unsupportedVersion')
+    : t('share.error.corrupt');
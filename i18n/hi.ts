@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Hindi UI strings ---
+
+export const hi: Messages = {
+  'nav.engine': 'फ़्लैश लाइट इंजन',
+  'nav.fssai': 'FSSAI पर केंद्रित',
+  'nav.language': 'भाषा',
+
+  'hero.badge': 'भारत का पोषण डिकोडर',
+  'hero.title': 'अब और न खाएँ',
+  'hero.highlight': 'छिपे हुए केमिकल।',
+  'hero.subtitle': 'किसी भी भारतीय स्नैक, पेय या पैक्ड फ़ूड का नाम लिखें या उसके लेबल की फ़ोटो लें, और उसके पीछे का सच जानें।',
+
+  'mode.single': 'एक उत्पाद',
+  'mode.compare': 'तुलना',
+  'mode.history': 'इतिहास',
+  'mode.profiles': 'प्रोफ़ाइल',
+
+  'search.placeholder': 'जैसे कुरकुरे, मैगी, किसान जैम, अमूल चीज़...',
+  'search.submit': 'जाँचें',
+
+  'loading.title': 'सामग्री का विश्लेषण हो रहा है...',
+  'loading.engine': 'Gemini 2.5 Flash Lite द्वारा संचालित',
+  'loading.cancel': 'रद्द करें',
+  'loading.ingredientsSoFar': 'अब तक {count} सामग्री पढ़ी गईं',
+
+  'error.title': 'स्कैन रुक गया',
+  'error.subtitle': 'एक अस्थायी समस्या आई है।',
+  'error.retry': 'फिर से कोशिश करें',
+  'error.rateLimit': 'अनुरोध सीमा पार हो गई। Gemini Flash Lite की सीमा अधिक है, पर API अभी व्यस्त हो सकता है। थोड़ी देर रुककर फिर कोशिश करें।',
+  'error.tooManyRequests': 'आप बहुत जल्दी-जल्दी विश्लेषण भेज रहे हैं। कृपया {seconds} सेकंड रुककर फिर कोशिश करें।',
+  'error.generic': 'उत्पाद स्कैन करते समय कुछ गड़बड़ हो गई।',
+  'error.parse': 'विश्लेषण अनपेक्षित रूप में मिला। कृपया फिर से कोशिश करें।',
+
+  'result.complete': 'विश्लेषण पूरा',
+  'result.saved': 'सहेजा गया {age}',
+  'result.refresh': 'ताज़ा करें',
+  'result.score': 'स्कोर',
+  'result.noNutrition': 'पोषण तालिका नहीं मिली',
+  'result.regulatoryAlert': 'नियामक चेतावनी',
+  'result.healthy': 'स्वस्थ और सुरक्षित',
+  'result.concerns': 'चिंताएँ और केमिकल',
+  'result.cleanLabel': 'साफ़ लेबल!',
+  'result.sources': 'जानकारी के स्रोत',
+  'result.newAnalysis': 'नया विश्लेषण',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'नोट: डेटा रीयल-टाइम में लिया जाता है। कृपया पैकेट पर छपे लेबल से मिलान करें।',
+  'footer.additiveDb': 'एडिटिव डेटाबेस v{version}',
+
+  'export.menu': 'निर्यात',
+  'export.print': 'प्रिंट / PDF',
+  'export.markdown': 'Markdown रिपोर्ट',
+  'export.json': 'JSON डेटा',
+  'export.share': 'शेयर लिंक कॉपी करें',
+  'export.copied': 'शेयर लिंक कॉपी हो गया',
+  'export.copyManually': 'रिपोर्ट साझा करने के लिए यह लिंक कॉपी करें:',
+  'export.popupBlocked': 'रिपोर्ट प्रिंट करने के लिए इस साइट के पॉप-अप की अनुमति दें।',
+  'export.generated': 'PurePlate Bharat द्वारा {date} को बनाई गई',
+  'export.scoreLine': 'स्वास्थ्य स्कोर: {score}/100',
+  'export.fssaiNotice': 'FSSAI सूचना',
+  'export.noNotice': 'इस उत्पाद के लिए कोई FSSAI सूचना नहीं है।',
+  'export.ingredient': 'सामग्री',
+  'export.quantity': 'मात्रा',
+  'export.status': 'स्थिति',
+  'export.additives': 'एडिटिव',
+  'export.notes': 'टिप्पणी',
+  'export.noSources': 'कोई स्रोत नहीं दिया गया।',
+
+  'share.banner': 'साझा की गई रिपोर्ट। यह ठीक वैसी ही दिखाई गई है जैसी भेजी गई थी और आपके इतिहास में सहेजी नहीं जाती।',
+  'share.error.corrupt': 'यह शेयर लिंक अधूरा या खराब है।',
+  'share.error.unsupportedVersion': 'यह शेयर लिंक PurePlate Bharat के नए संस्करण से बनाया गया है।',
+
+  'score.title': 'यह स्कोर कैसे निकाला गया',
+  'score.grade': 'Nutri-Score {grade} • {points} अंक',
+  'score.baseline': 'आधार',
+  'score.notDeclared': 'घोषित नहीं',
+  'score.total': 'स्वास्थ्य स्कोर',
+  'score.proteinCapped': 'प्रोटीन के अंक नहीं जोड़े गए क्योंकि ऊर्जा, चीनी, संतृप्त वसा और सोडियम के दंड अधिक हैं।',
+
+  'nutrient.energyKcal': 'ऊर्जा',
+  'nutrient.sugarG': 'चीनी',
+  'nutrient.saturatedFatG': 'संतृप्त वसा',
+  'nutrient.sodiumMg': 'सोडियम',
+  'nutrient.fibreG': 'फ़ाइबर',
+  'nutrient.proteinG': 'प्रोटीन',
+  'nutrient.fruitVegPercent': 'फल / सब्ज़ी',
+
+  'status.healthy': 'स्वस्थ',
+  'status.neutral': 'सामान्य',
+  'status.harmful': 'हानिकारक',
+
+  'hazard.none': 'कोई ख़तरा नहीं',
+  'hazard.low': 'कम ख़तरा',
+  'hazard.moderate': 'मध्यम ख़तरा',
+  'hazard.high': 'उच्च ख़तरा',
+
+  'verdict.fromPhoto': 'लेबल फ़ोटो से',
+  'verdict.fromWeb': 'वेब खोज से',
+  'verdict.database': 'निर्णय: INS डेटाबेस',
+  'verdict.model': 'निर्णय: AI मॉडल',
+  'verdict.modelSaid': 'AI के अनुसार {status}',
+  'verdict.databaseRates': 'INS डेटाबेस इसे {status} मानता है',
+  'verdict.confirmed': 'INS डेटाबेस से पुष्टि',
+
+  'consistency.low': 'कम भरोसा',
+  'consistency.quantity': 'दूसरे रन में: {quantity}',
+  'consistency.status': 'दूसरे रन में: {status}',
+  'consistency.missing': 'दूसरे रन में नहीं मिला',
+
+  'confidence.high': 'उच्च भरोसा',
+  'confidence.medium': 'मध्यम भरोसा',
+  'confidence.low': 'कम भरोसा',
+
+  'confidence.reason.photoLabel': 'सामग्री आपके लेबल फ़ोटो से पढ़ी गई',
+  'confidence.reason.regulatorSource': 'सरकारी या नियामक स्रोत से समर्थित',
+  'confidence.reason.manufacturerSource': 'निर्माता की अपनी साइट से समर्थित',
+  'confidence.reason.retailerSource': 'स्रोत केवल ऑनलाइन विक्रेता हैं',
+  'confidence.reason.weakSources': 'कोई आधिकारिक या निर्माता स्रोत नहीं मिला',
+  'confidence.reason.noSources': 'कोई वेब स्रोत नहीं दिया गया',
+  'confidence.reason.runsAgree': 'दूसरा रन हर सामग्री पर सहमत रहा',
+  'confidence.reason.runsDisagree': 'दूसरा रन {count} सामग्रियों पर असहमत रहा',
+
+  'source.kind.regulator': 'नियामक',
+  'source.kind.manufacturer': 'निर्माता',
+  'source.kind.retailer': 'विक्रेता',
+  'source.kind.other': 'अन्य',
+
+  'verify.toggle': 'दूसरे रन से जाँचें',
+  'verify.hint': 'विश्लेषण दो बार चलाता है और जिन सामग्रियों की मात्रा या स्थिति बदली उन्हें चिह्नित करता है। धीमा है और दो विश्लेषण लेता है।',
+
+  'photo.upload': 'लेबल फ़ोटो अपलोड करें',
+  'photo.take': 'फ़ोटो लें',
+  'photo.remove': 'फ़ोटो हटाएँ',
+  'photo.alt': '{panel} पैनल',
+  'photo.readError': '"{name}" पढ़ी नहीं जा सकी। कृपया JPEG या PNG फ़ोटो आज़माएँ।',
+  'panel.ingredients': 'सामग्री',
+  'panel.nutrition': 'पोषण',
+
+  'barcode.placeholder': 'बारकोड (EAN-13 / UPC)',
+  'barcode.scan': 'स्कैन',
+  'barcode.unknown': 'अज्ञात बारकोड। हम इसे वेब पर खोजेंगे।',
+  'barcode.error.digits': 'बारकोड में केवल अंक होते हैं।',
+  'barcode.error.length': 'बारकोड के नीचे छपा 13 अंकों का EAN या 12 अंकों का UPC दर्ज करें।',
+  'barcode.error.checksum': 'चेकसम मेल नहीं खाता। कृपया अंक दोबारा जाँचें।',
+
+  'scanner.close': 'स्कैनर बंद करें',
+  'scanner.hint': 'कैमरे को पैकेट के बारकोड की ओर रखें।',
+  'scanner.unavailable': 'कैमरा उपलब्ध नहीं है।',
+
+  'catalog.saved': 'बारकोड {barcode} आपके कैटलॉग में सहेजा गया',
+  'catalog.question': 'क्या यह बारकोड {barcode} वाला पैकेट है?',
+  'catalog.brand': 'ब्रांड',
+  'catalog.name': 'उत्पाद',
+  'catalog.variant': 'वैरिएंट',
+  'catalog.packSize': 'पैक का आकार',
+  'catalog.save': 'पुष्टि करें और सहेजें',
+
+  'compare.placeholder': 'उत्पाद {index}, जैसे {example}',
+  'compare.remove': 'उत्पाद हटाएँ',
+  'compare.add': 'उत्पाद जोड़ें',
+  'compare.submit': 'तुलना करें',
+  'compare.progress': '{total} में से {current} का विश्लेषण',
+  'compare.onlyOne': 'केवल एक उत्पाद का विश्लेषण हो सका, इसलिए अभी तुलना के लिए कुछ नहीं है।',
+  'compare.sharedAdditives': 'साझा एडिटिव',
+  'compare.perHundred': 'प्रति 100g सामग्री',
+
+  'alternatives.title': 'बेहतर विकल्प',
+  'alternatives.intro': 'भारत में बिकने वाले अन्य {category}, विश्लेषण करके स्वास्थ्य स्कोर के अनुसार क्रम में।',
+  'alternatives.find': 'सेहतमंद {category} खोजें',
+  'alternatives.none': 'अभी किसी भी सुझाव का विश्लेषण नहीं हो सका।',
+  'alternatives.open': 'पूरा विश्लेषण',
+  'alternatives.vsThis': 'इस उत्पाद से {delta}',
+
+  'diff.less': '{percent}% कम {nutrient}',
+  'diff.more': '{percent}% अधिक {nutrient}',
+  'diff.without': '{label} नहीं',
+  'diff.adds': '{label} शामिल है',
+  'diff.fewerHarmful': '{count} कम हानिकारक सामग्री',
+  'diff.moreHarmful': '{count} अधिक हानिकारक सामग्री',
+
+  'category.instantNoodles': 'इंस्टेंट नूडल्स',
+  'category.namkeen': 'नमकीन',
+  'category.chips': 'चिप्स',
+  'category.biscuits': 'बिस्कुट',
+  'category.cereal': 'नाश्ते के सीरियल',
+  'category.chocolate': 'चॉकलेट',
+  'category.juice': 'जूस',
+  'category.softDrinks': 'सॉफ्ट ड्रिंक',
+  'category.bread': 'ब्रेड',
+
+  'dimension.healthScore': 'स्वास्थ्य स्कोर',
+  'dimension.harmfulCount': 'हानिकारक सामग्री',
+  'dimension.additiveCount': 'INS एडिटिव',
+  'dimension.sugarG': 'चीनी',
+  'dimension.saturatedFatG': 'संतृप्त वसा',
+  'dimension.sodiumMg': 'सोडियम',
+
+  'history.search': 'पिछले स्कैन खोजें',
+  'history.unavailable': 'इस ब्राउज़र में स्कैन इतिहास उपलब्ध नहीं है।',
+  'history.empty': 'अभी कोई स्कैन नहीं। विश्लेषित उत्पाद यहाँ दिखेंगे।',
+  'history.noMatch': 'आपकी खोज से कोई स्कैन मेल नहीं खाता।',
+  'history.score': 'स्कोर {score}',
+  'history.delete': 'स्कैन हटाएँ',
+  'history.deleteFailed': 'स्कैन हटाया नहीं जा सका। कृपया फिर से कोशिश करें।',
+
+  'profiles.intro': 'जिनके लिए आप ख़रीदारी करते हैं, हर व्यक्ति की प्रोफ़ाइल जोड़ें। हर विश्लेषण सभी प्रोफ़ाइलों से जाँचा जाता है।',
+  'profiles.namePlaceholder': 'नाम, जैसे दादी या आरव',
+  'profiles.delete': 'प्रोफ़ाइल हटाएँ',
+  'profiles.allergies': 'एलर्जी',
+  'profiles.diet': 'आहार',
+  'profiles.diabetic': 'मधुमेह',
+  'profiles.alsoAvoid': 'इनसे भी बचें',
+  'profiles.removeItem': 'हटाएँ',
+  'profiles.avoidPlaceholder': 'जैसे palm oil',
+  'profiles.avoidInvalid': 'सामग्री का नाम लिखें; इसमें कम से कम एक अक्षर या अंक होना चाहिए।',
+  'profiles.add': 'प्रोफ़ाइल जोड़ें',
+
+  'diet.any': 'कोई पाबंदी नहीं',
+  'diet.vegetarian': 'शाकाहारी',
+  'diet.vegan': 'वीगन',
+  'diet.jain': 'जैन',
+
+  'allergen.peanut': 'मूँगफली',
+  'allergen.treeNuts': 'मेवे',
+  'allergen.milk': 'दूध',
+  'allergen.gluten': 'ग्लूटेन',
+  'allergen.soy': 'सोया',
+  'allergen.sesame': 'तिल',
+  'allergen.egg': 'अंडा',
+  'allergen.fish': 'मछली',
+  'allergen.shellfish': 'शेलफ़िश',
+  'allergen.mustard': 'सरसों',
+
+  'warning.unnamed': 'बिना नाम की प्रोफ़ाइल',
+  'warning.clear': 'कोई टकराव नहीं मिला',
+  'warning.avoid': 'उपयुक्त नहीं',
+  'warning.caution': 'खाने से पहले जाँचें',
+
+  'issue.allergen': '{allergen} है ({term})',
+  'issue.declared': 'पैकेट पर लिखा है: {term} ({allergen})',
+  'issue.nonVegMark': 'पैकेट पर मांसाहारी (भूरा बिंदु) चिह्न है',
+  'issue.animal': 'पशु-स्रोत: {term}',
+  'issue.maybeAnimal': 'पशु-स्रोत हो सकता है: {term}',
+  'issue.notVegan': 'वीगन नहीं: {term}',
+  'issue.notJain': 'जैन आहार के अनुकूल नहीं: {term}',
+  'issue.addedSugar': 'मिलाई गई चीनी: {term}',
+  'issue.sugarLevel': 'प्रति 100g {amount} g चीनी (कम-चीनी सीमा {limit} g है)',
+  'issue.avoidList': 'आपकी परहेज़ सूची में: {term}',
+};
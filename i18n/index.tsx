@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { LanguageCode } from '../types';
+import { DEFAULT_LANGUAGE, isLanguageCode, languageInfo } from './languages';
+import { en, MessageKey, Messages } from './en';
+import { hi } from './hi';
+import { ta } from './ta';
+import { te } from './te';
+import { bn } from './bn';
+import { kn } from './kn';
+import { mr } from './mr';
+
+export type { MessageKey } from './en';
+
+const MESSAGES: Record<LanguageCode, Messages> = { en, hi, ta, te, bn, kn, mr };
+
+export type TranslateParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslateParams) => string;
+
+export const translate = (language: LanguageCode, key: MessageKey, params?: TranslateParams) => {
+  const template = MESSAGES[language][key] || en[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// --- Persisted language choice ---
+
+const STORAGE_KEY = 'pureplate.language.v1';
+
+// Saved choice first, then the browser's language if we have it, then English.
+export const loadLanguage = (): LanguageCode => {
+  if (typeof localStorage !== 'undefined') {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLanguageCode(saved)) return saved;
+  }
+  if (typeof navigator !== 'undefined') {
+    const browser = navigator.language?.split('-')[0];
+    if (isLanguageCode(browser)) return browser;
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+export const saveLanguage = (language: LanguageCode) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(STORAGE_KEY, language);
+};
+
+// --- React binding ---
+
+interface I18nValue {
+  language: LanguageCode;
+  locale: string;
+  setLanguage: (language: LanguageCode) => void;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nValue | null>(null);
+
+export const I18nProvider = ({ children }: { children: React.ReactNode }) => {
+  const [language, setLanguageState] = useState<LanguageCode>(loadLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: LanguageCode) => {
+    setLanguageState(next);
+    saveLanguage(next);
+  };
+
+  const value: I18nValue = {
+    language,
+    locale: languageInfo(language).locale,
+    setLanguage,
+    t: (key, params) => translate(language, key, params),
+  };
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside <I18nProvider>.');
+  return value;
+};
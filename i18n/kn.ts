@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Kannada UI strings ---
+
+export const kn: Messages = {
+  'nav.engine': 'ಫ್ಲ್ಯಾಶ್ ಲೈಟ್ ಎಂಜಿನ್',
+  'nav.fssai': 'FSSAI ಕೇಂದ್ರಿತ',
+  'nav.language': 'ಭಾಷೆ',
+
+  'hero.badge': 'ಭಾರತದ ಪೋಷಣೆ ಡಿಕೋಡರ್',
+  'hero.title': 'ಇನ್ನು ತಿನ್ನಬೇಡಿ',
+  'hero.highlight': 'ಅಡಗಿರುವ ರಾಸಾಯನಿಕಗಳನ್ನು.',
+  'hero.subtitle': 'ಯಾವುದೇ ಭಾರತೀಯ ತಿಂಡಿ, ಪಾನೀಯ ಅಥವಾ ಪ್ಯಾಕ್ ಮಾಡಿದ ಆಹಾರದ ಹೆಸರನ್ನು ನಮೂದಿಸಿ ಅಥವಾ ಅದರ ಲೇಬಲ್‌ನ ಫೋಟೋ ತೆಗೆಯಿರಿ, ಅದರ ಹಿಂದಿನ ಸತ್ಯವನ್ನು ತಿಳಿಯಿರಿ.',
+
+  'mode.single': 'ಒಂದು ಉತ್ಪನ್ನ',
+  'mode.compare': 'ಹೋಲಿಕೆ',
+  'mode.history': 'ಇತಿಹಾಸ',
+  'mode.profiles': 'ಪ್ರೊಫೈಲ್‌ಗಳು',
+
+  'search.placeholder': 'ಉದಾ. ಕುರ್ಕುರೆ, ಮ್ಯಾಗಿ, ಕಿಸಾನ್ ಜಾಮ್, ಅಮುಲ್ ಚೀಸ್...',
+  'search.submit': 'ಪರಿಶೀಲಿಸಿ',
+
+  'loading.title': 'ಪದಾರ್ಥಗಳನ್ನು ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ...',
+  'loading.engine': 'Gemini 2.5 Flash Lite ಆಧಾರಿತ',
+  'loading.cancel': 'ರದ್ದುಮಾಡಿ',
+  'loading.ingredientsSoFar': 'ಇಲ್ಲಿಯವರೆಗೆ {count} ಪದಾರ್ಥಗಳನ್ನು ಓದಲಾಗಿದೆ',
+
+  'error.title': 'ಸ್ಕ್ಯಾನ್ ಅಡಚಣೆಯಾಯಿತು',
+  'error.subtitle': 'ತಾತ್ಕಾಲಿಕ ಸಮಸ್ಯೆ ಎದುರಾಗಿದೆ.',
+  'error.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'error.rateLimit': 'ವಿನಂತಿ ಮಿತಿ ಮೀರಿದೆ. Gemini Flash Lite ಮಿತಿಗಳು ಹೆಚ್ಚಿವೆ, ಆದರೆ API ಈಗ ಕಾರ್ಯನಿರತವಾಗಿರಬಹುದು. ಸ್ವಲ್ಪ ಸಮಯ ಕಾದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.tooManyRequests': 'ನೀವು ತುಂಬಾ ವೇಗವಾಗಿ ವಿಶ್ಲೇಷಣೆಗಳನ್ನು ಕಳುಹಿಸುತ್ತಿದ್ದೀರಿ. ದಯವಿಟ್ಟು {seconds} ಸೆಕೆಂಡುಗಳು ಕಾದು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'error.generic': 'ಉತ್ಪನ್ನವನ್ನು ಸ್ಕ್ಯಾನ್ ಮಾಡುವಾಗ ಏನೋ ತಪ್ಪಾಗಿದೆ.',
+  'error.parse': 'ವಿಶ್ಲೇಷಣೆ ಅನಿರೀಕ್ಷಿತ ರೂಪದಲ್ಲಿ ಬಂದಿದೆ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+  'result.complete': 'ವಿಶ್ಲೇಷಣೆ ಪೂರ್ಣಗೊಂಡಿದೆ',
+  'result.saved': 'ಉಳಿಸಲಾಗಿದೆ {age}',
+  'result.refresh': 'ರಿಫ್ರೆಶ್',
+  'result.score': 'ಸ್ಕೋರ್',
+  'result.noNutrition': 'ಪೋಷಣೆ ಪಟ್ಟಿ ಸಿಗಲಿಲ್ಲ',
+  'result.regulatoryAlert': 'ನಿಯಂತ್ರಕ ಎಚ್ಚರಿಕೆ',
+  'result.healthy': 'ಆರೋಗ್ಯಕರ ಮತ್ತು ಸುರಕ್ಷಿತ',
+  'result.concerns': 'ಕಳವಳಗಳು ಮತ್ತು ರಾಸಾಯನಿಕಗಳು',
+  'result.cleanLabel': 'ಸ್ವಚ್ಛ ಲೇಬಲ್!',
+  'result.sources': 'ಮಾಹಿತಿ ಮೂಲಗಳು',
+  'result.newAnalysis': 'ಹೊಸ ವಿಶ್ಲೇಷಣೆ',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'ಸೂಚನೆ: ಡೇಟಾವನ್ನು ನೈಜ ಸಮಯದಲ್ಲಿ ಪಡೆಯಲಾಗುತ್ತದೆ. ದಯವಿಟ್ಟು ಪ್ಯಾಕೆಟ್ ಲೇಬಲ್‌ನೊಂದಿಗೆ ಹೋಲಿಸಿ ನೋಡಿ.',
+  'footer.additiveDb': 'ಸಂಯೋಜಕ ಡೇಟಾಬೇಸ್ v{version}',
+
+  'export.menu': 'ರಫ್ತು',
+  'export.print': 'ಮುದ್ರಿಸಿ / PDF',
+  'export.markdown': 'Markdown ವರದಿ',
+  'export.json': 'JSON ಡೇಟಾ',
+  'export.share': 'ಹಂಚಿಕೆ ಲಿಂಕ್ ನಕಲಿಸಿ',
+  'export.copied': 'ಹಂಚಿಕೆ ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ',
+  'export.copyManually': 'ವರದಿಯನ್ನು ಹಂಚಿಕೊಳ್ಳಲು ಈ ಲಿಂಕ್ ನಕಲಿಸಿ:',
+  'export.popupBlocked': 'ವರದಿಯನ್ನು ಮುದ್ರಿಸಲು ಈ ಸೈಟ್‌ಗೆ ಪಾಪ್-ಅಪ್‌ಗಳನ್ನು ಅನುಮತಿಸಿ.',
+  'export.generated': 'PurePlate Bharat ಮೂಲಕ {date} ರಂದು ರಚಿಸಲಾಗಿದೆ',
+  'export.scoreLine': 'ಆರೋಗ್ಯ ಸ್ಕೋರ್: {score}/100',
+  'export.fssaiNotice': 'FSSAI ಸೂಚನೆ',
+  'export.noNotice': 'ಈ ಉತ್ಪನ್ನಕ್ಕೆ FSSAI ಸೂಚನೆ ಇಲ್ಲ.',
+  'export.ingredient': 'ಪದಾರ್ಥ',
+  'export.quantity': 'ಪ್ರಮಾಣ',
+  'export.status': 'ಸ್ಥಿತಿ',
+  'export.additives': 'ಸಂಯೋಜಕಗಳು',
+  'export.notes': 'ಟಿಪ್ಪಣಿಗಳು',
+  'export.noSources': 'ಯಾವುದೇ ಮೂಲಗಳನ್ನು ಉಲ್ಲೇಖಿಸಿಲ್ಲ.',
+
+  'share.banner': 'ಹಂಚಿಕೊಂಡ ವರದಿ. ಇದನ್ನು ಕಳುಹಿಸಿದಂತೆಯೇ ತೋರಿಸಲಾಗಿದೆ ಮತ್ತು ನಿಮ್ಮ ಇತಿಹಾಸದಲ್ಲಿ ಉಳಿಸಲಾಗುವುದಿಲ್ಲ.',
+  'share.error.corrupt': 'ಈ ಹಂಚಿಕೆ ಲಿಂಕ್ ಅಪೂರ್ಣ ಅಥವಾ ಹಾನಿಗೊಳಗಾಗಿದೆ.',
+  'share.error.unsupportedVersion': 'ಈ ಹಂಚಿಕೆ ಲಿಂಕ್ PurePlate Bharat ನ ಹೊಸ ಆವೃತ್ತಿಯಿಂದ ರಚಿತವಾಗಿದೆ.',
+
+  'score.title': 'ಈ ಸ್ಕೋರ್ ಹೇಗೆ ಲೆಕ್ಕಹಾಕಲಾಗಿದೆ',
+  'score.grade': 'Nutri-Score {grade} • {points} ಅಂಕಗಳು',
+  'score.baseline': 'ಆಧಾರ',
+  'score.notDeclared': 'ಘೋಷಿಸಿಲ್ಲ',
+  'score.total': 'ಆರೋಗ್ಯ ಸ್ಕೋರ್',
+  'score.proteinCapped': 'ಶಕ್ತಿ, ಸಕ್ಕರೆ, ಸ್ಯಾಚುರೇಟೆಡ್ ಕೊಬ್ಬು ಮತ್ತು ಸೋಡಿಯಂ ದಂಡಗಳು ಹೆಚ್ಚಿರುವುದರಿಂದ ಪ್ರೋಟೀನ್‌ಗೆ ಅಂಕ ನೀಡಿಲ್ಲ.',
+
+  'nutrient.energyKcal': 'ಶಕ್ತಿ',
+  'nutrient.sugarG': 'ಸಕ್ಕರೆ',
+  'nutrient.saturatedFatG': 'ಸ್ಯಾಚುರೇಟೆಡ್ ಕೊಬ್ಬು',
+  'nutrient.sodiumMg': 'ಸೋಡಿಯಂ',
+  'nutrient.fibreG': 'ನಾರು',
+  'nutrient.proteinG': 'ಪ್ರೋಟೀನ್',
+  'nutrient.fruitVegPercent': 'ಹಣ್ಣು / ತರಕಾರಿ',
+
+  'status.healthy': 'ಆರೋಗ್ಯಕರ',
+  'status.neutral': 'ತಟಸ್ಥ',
+  'status.harmful': 'ಹಾನಿಕರ',
+
+  'hazard.none': 'ಅಪಾಯವಿಲ್ಲ',
+  'hazard.low': 'ಕಡಿಮೆ ಅಪಾಯ',
+  'hazard.moderate': 'ಮಧ್ಯಮ ಅಪಾಯ',
+  'hazard.high': 'ಹೆಚ್ಚಿನ ಅಪಾಯ',
+
+  'verdict.fromPhoto': 'ಲೇಬಲ್ ಫೋಟೋದಿಂದ',
+  'verdict.fromWeb': 'ವೆಬ್ ಹುಡುಕಾಟದಿಂದ',
+  'verdict.database': 'ತೀರ್ಪು: INS ಡೇಟಾಬೇಸ್',
+  'verdict.model': 'ತೀರ್ಪು: AI ಮಾದರಿ',
+  'verdict.modelSaid': 'AI ಪ್ರಕಾರ {status}',
+  'verdict.databaseRates': 'INS ಡೇಟಾಬೇಸ್ ಇದನ್ನು {status} ಎಂದು ರೇಟ್ ಮಾಡುತ್ತದೆ',
+  'verdict.confirmed': 'INS ಡೇಟಾಬೇಸ್‌ನಿಂದ ದೃಢೀಕರಿಸಲಾಗಿದೆ',
+
+  'consistency.low': 'ಕಡಿಮೆ ವಿಶ್ವಾಸಾರ್ಹತೆ',
+  'consistency.quantity': 'ಇನ್ನೊಂದು ರನ್: {quantity}',
+  'consistency.status': 'ಇನ್ನೊಂದು ರನ್: {status}',
+  'consistency.missing': 'ಇನ್ನೊಂದು ರನ್‌ನಲ್ಲಿ ಇಲ್ಲ',
+
+  'confidence.high': 'ಹೆಚ್ಚಿನ ವಿಶ್ವಾಸಾರ್ಹತೆ',
+  'confidence.medium': 'ಮಧ್ಯಮ ವಿಶ್ವಾಸಾರ್ಹತೆ',
+  'confidence.low': 'ಕಡಿಮೆ ವಿಶ್ವಾಸಾರ್ಹತೆ',
+
+  'confidence.reason.photoLabel': 'ಪದಾರ್ಥಗಳನ್ನು ನಿಮ್ಮ ಲೇಬಲ್ ಫೋಟೋಗಳಿಂದ ಓದಲಾಗಿದೆ',
+  'confidence.reason.regulatorSource': 'ಸರ್ಕಾರಿ ಅಥವಾ ನಿಯಂತ್ರಕ ಮೂಲದ ಬೆಂಬಲವಿದೆ',
+  'confidence.reason.manufacturerSource': 'ತಯಾರಕರ ಸ್ವಂತ ತಾಣದ ಬೆಂಬಲವಿದೆ',
+  'confidence.reason.retailerSource': 'ಮೂಲಗಳು ಆನ್‌ಲೈನ್ ಮಾರಾಟಗಾರರು ಮಾತ್ರ',
+  'confidence.reason.weakSources': 'ಅಧಿಕೃತ ಅಥವಾ ತಯಾರಕರ ಮೂಲ ಸಿಗಲಿಲ್ಲ',
+  'confidence.reason.noSources': 'ಯಾವುದೇ ವೆಬ್ ಮೂಲಗಳನ್ನು ಉಲ್ಲೇಖಿಸಿಲ್ಲ',
+  'confidence.reason.runsAgree': 'ಎರಡನೇ ರನ್ ಎಲ್ಲಾ ಪದಾರ್ಥಗಳಲ್ಲಿ ಒಪ್ಪಿತು',
+  'confidence.reason.runsDisagree': 'ಎರಡನೇ ರನ್ {count} ಪದಾರ್ಥಗಳಲ್ಲಿ ಭಿನ್ನವಾಗಿತ್ತು',
+
+  'source.kind.regulator': 'ನಿಯಂತ್ರಕ',
+  'source.kind.manufacturer': 'ತಯಾರಕ',
+  'source.kind.retailer': 'ಮಾರಾಟಗಾರ',
+  'source.kind.other': 'ಇತರೆ',
+
+  'verify.toggle': 'ಎರಡನೇ ರನ್‌ನೊಂದಿಗೆ ಪರಿಶೀಲಿಸಿ',
+  'verify.hint': 'ವಿಶ್ಲೇಷಣೆಯನ್ನು ಎರಡು ಬಾರಿ ನಡೆಸಿ, ಪ್ರಮಾಣ ಅಥವಾ ಸ್ಥಿತಿ ಬದಲಾದ ಪದಾರ್ಥಗಳನ್ನು ಗುರುತಿಸುತ್ತದೆ. ನಿಧಾನ, ಎರಡು ವಿಶ್ಲೇಷಣೆಗಳನ್ನು ಬಳಸುತ್ತದೆ.',
+
+  'photo.upload': 'ಲೇಬಲ್ ಫೋಟೋ ಅಪ್‌ಲೋಡ್ ಮಾಡಿ',
+  'photo.take': 'ಫೋಟೋ ತೆಗೆಯಿರಿ',
+  'photo.remove': 'ಫೋಟೋ ತೆಗೆದುಹಾಕಿ',
+  'photo.alt': '{panel} ಫಲಕ',
+  'photo.readError': '"{name}" ಓದಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು JPEG ಅಥವಾ PNG ಚಿತ್ರ ಪ್ರಯತ್ನಿಸಿ.',
+  'panel.ingredients': 'ಪದಾರ್ಥಗಳು',
+  'panel.nutrition': 'ಪೋಷಣೆ',
+
+  'barcode.placeholder': 'ಬಾರ್‌ಕೋಡ್ (EAN-13 / UPC)',
+  'barcode.scan': 'ಸ್ಕ್ಯಾನ್',
+  'barcode.unknown': 'ಅಪರಿಚಿತ ಬಾರ್‌ಕೋಡ್. ನಾವು ಇದನ್ನು ವೆಬ್‌ನಲ್ಲಿ ಹುಡುಕುತ್ತೇವೆ.',
+  'barcode.error.digits': 'ಬಾರ್‌ಕೋಡ್‌ನಲ್ಲಿ ಅಂಕಿಗಳು ಮಾತ್ರ ಇರುತ್ತವೆ.',
+  'barcode.error.length': 'ಬಾರ್‌ಕೋಡ್ ಕೆಳಗೆ ಮುದ್ರಿಸಿದ 13 ಅಂಕಿಯ EAN ಅಥವಾ 12 ಅಂಕಿಯ UPC ನಮೂದಿಸಿ.',
+  'barcode.error.checksum': 'ಚೆಕ್‌ಸಮ್ ಹೊಂದಿಕೆಯಾಗುತ್ತಿಲ್ಲ. ದಯವಿಟ್ಟು ಅಂಕಿಗಳನ್ನು ಮತ್ತೆ ಪರಿಶೀಲಿಸಿ.',
+
+  'scanner.close': 'ಸ್ಕ್ಯಾನರ್ ಮುಚ್ಚಿ',
+  'scanner.hint': 'ಕ್ಯಾಮೆರಾವನ್ನು ಪ್ಯಾಕೆಟ್‌ನ ಬಾರ್‌ಕೋಡ್ ಕಡೆಗೆ ಹಿಡಿಯಿರಿ.',
+  'scanner.unavailable': 'ಕ್ಯಾಮೆರಾ ಲಭ್ಯವಿಲ್ಲ.',
+
+  'catalog.saved': 'ಬಾರ್‌ಕೋಡ್ {barcode} ನಿಮ್ಮ ಕ್ಯಾಟಲಾಗ್‌ಗೆ ಉಳಿಸಲಾಗಿದೆ',
+  'catalog.question': 'ಇದು ಬಾರ್‌ಕೋಡ್ {barcode} ಇರುವ ಪ್ಯಾಕೆಟ್ ಆಗಿದೆಯೇ?',
+  'catalog.brand': 'ಬ್ರ್ಯಾಂಡ್',
+  'catalog.name': 'ಉತ್ಪನ್ನ',
+  'catalog.variant': 'ರೂಪಾಂತರ',
+  'catalog.packSize': 'ಪ್ಯಾಕ್ ಗಾತ್ರ',
+  'catalog.save': 'ದೃಢೀಕರಿಸಿ ಉಳಿಸಿ',
+
+  'compare.placeholder': 'ಉತ್ಪನ್ನ {index}, ಉದಾ. {example}',
+  'compare.remove': 'ಉತ್ಪನ್ನ ತೆಗೆದುಹಾಕಿ',
+  'compare.add': 'ಉತ್ಪನ್ನ ಸೇರಿಸಿ',
+  'compare.submit': 'ಹೋಲಿಸಿ',
+  'compare.progress': '{total}ರಲ್ಲಿ {current} ವಿಶ್ಲೇಷಿಸಲಾಗುತ್ತಿದೆ',
+  'compare.onlyOne': 'ಒಂದೇ ಉತ್ಪನ್ನವನ್ನು ವಿಶ್ಲೇಷಿಸಲು ಸಾಧ್ಯವಾಯಿತು, ಹಾಗಾಗಿ ಹೋಲಿಸಲು ಇನ್ನೂ ಏನೂ ಇಲ್ಲ.',
+  'compare.sharedAdditives': 'ಸಾಮಾನ್ಯ ಸಂಯೋಜಕಗಳು',
+  'compare.perHundred': 'ಪ್ರತಿ 100gಗೆ ಪದಾರ್ಥಗಳು',
+
+  'alternatives.title': 'ಉತ್ತಮ ಪರ್ಯಾಯಗಳು',
+  'alternatives.intro': 'ಭಾರತದಲ್ಲಿ ಮಾರಾಟವಾಗುವ ಇತರ {category}, ವಿಶ್ಲೇಷಿಸಿ ಆರೋಗ್ಯ ಸ್ಕೋರ್ ಪ್ರಕಾರ ಕ್ರಮಗೊಳಿಸಲಾಗಿದೆ.',
+  'alternatives.find': 'ಆರೋಗ್ಯಕರ {category} ಹುಡುಕಿ',
+  'alternatives.none': 'ಈಗ ಯಾವುದೇ ಸಲಹೆಯನ್ನು ವಿಶ್ಲೇಷಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ.',
+  'alternatives.open': 'ಪೂರ್ಣ ವಿಶ್ಲೇಷಣೆ',
+  'alternatives.vsThis': 'ಈ ಉತ್ಪನ್ನಕ್ಕಿಂತ {delta}',
+
+  'diff.less': '{percent}% ಕಡಿಮೆ {nutrient}',
+  'diff.more': '{percent}% ಹೆಚ್ಚು {nutrient}',
+  'diff.without': '{label} ಇಲ್ಲ',
+  'diff.adds': '{label} ಇದೆ',
+  'diff.fewerHarmful': '{count} ಕಡಿಮೆ ಹಾನಿಕರ ಪದಾರ್ಥಗಳು',
+  'diff.moreHarmful': '{count} ಹೆಚ್ಚು ಹಾನಿಕರ ಪದಾರ್ಥಗಳು',
+
+  'category.instantNoodles': 'ಇನ್‌ಸ್ಟಂಟ್ ನೂಡಲ್ಸ್',
+  'category.namkeen': 'ನಮ್ಕೀನ್',
+  'category.chips': 'ಚಿಪ್ಸ್',
+  'category.biscuits': 'ಬಿಸ್ಕತ್ತುಗಳು',
+  'category.cereal': 'ಉಪಾಹಾರ ಸೀರಿಯಲ್‌ಗಳು',
+  'category.chocolate': 'ಚಾಕೊಲೇಟ್‌ಗಳು',
+  'category.juice': 'ಜ್ಯೂಸ್‌ಗಳು',
+  'category.softDrinks': 'ತಂಪು ಪಾನೀಯಗಳು',
+  'category.bread': 'ಬ್ರೆಡ್',
+
+  'dimension.healthScore': 'ಆರೋಗ್ಯ ಸ್ಕೋರ್',
+  'dimension.harmfulCount': 'ಹಾನಿಕರ ಪದಾರ್ಥಗಳು',
+  'dimension.additiveCount': 'INS ಸಂಯೋಜಕಗಳು',
+  'dimension.sugarG': 'ಸಕ್ಕರೆ',
+  'dimension.saturatedFatG': 'ಸ್ಯಾಚುರೇಟೆಡ್ ಕೊಬ್ಬು',
+  'dimension.sodiumMg': 'ಸೋಡಿಯಂ',
+
+  'history.search': 'ಹಿಂದಿನ ಸ್ಕ್ಯಾನ್‌ಗಳನ್ನು ಹುಡುಕಿ',
+  'history.unavailable': 'ಈ ಬ್ರೌಸರ್‌ನಲ್ಲಿ ಸ್ಕ್ಯಾನ್ ಇತಿಹಾಸ ಲಭ್ಯವಿಲ್ಲ.',
+  'history.empty': 'ಇನ್ನೂ ಯಾವುದೇ ಸ್ಕ್ಯಾನ್‌ಗಳಿಲ್ಲ. ವಿಶ್ಲೇಷಿಸಿದ ಉತ್ಪನ್ನಗಳು ಇಲ್ಲಿ ಕಾಣಿಸುತ್ತವೆ.',
+  'history.noMatch': 'ನಿಮ್ಮ ಹುಡುಕಾಟಕ್ಕೆ ಹೊಂದುವ ಸ್ಕ್ಯಾನ್‌ಗಳಿಲ್ಲ.',
+  'history.score': 'ಸ್ಕೋರ್ {score}',
+  'history.delete': 'ಸ್ಕ್ಯಾನ್ ಅಳಿಸಿ',
+  'history.deleteFailed': 'ಸ್ಕ್ಯಾನ್ ಅಳಿಸಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+  'profiles.intro': 'ನೀವು ಯಾರಿಗಾಗಿ ಖರೀದಿಸುತ್ತೀರೋ ಅವರಲ್ಲಿ ಪ್ರತಿಯೊಬ್ಬರಿಗೂ ಒಂದು ಪ್ರೊಫೈಲ್ ಸೇರಿಸಿ. ಪ್ರತಿ ವಿಶ್ಲೇಷಣೆಯನ್ನು ಎಲ್ಲಾ ಪ್ರೊಫೈಲ್‌ಗಳೊಂದಿಗೆ ಪರಿಶೀಲಿಸಲಾಗುತ್ತದೆ.',
+  'profiles.namePlaceholder': 'ಹೆಸರು, ಉದಾ. ಅಜ್ಜಿ ಅಥವಾ ಆರವ್',
+  'profiles.delete': 'ಪ್ರೊಫೈಲ್ ಅಳಿಸಿ',
+  'profiles.allergies': 'ಅಲರ್ಜಿಗಳು',
+  'profiles.diet': 'ಆಹಾರ ಪದ್ಧತಿ',
+  'profiles.diabetic': 'ಮಧುಮೇಹ',
+  'profiles.alsoAvoid': 'ಇವುಗಳನ್ನೂ ತಪ್ಪಿಸಿ',
+  'profiles.removeItem': 'ತೆಗೆದುಹಾಕಿ',
+  'profiles.avoidPlaceholder': 'ಉದಾ. palm oil',
+  'profiles.avoidInvalid': 'ಪದಾರ್ಥದ ಹೆಸರನ್ನು ಟೈಪ್ ಮಾಡಿ; ಅದರಲ್ಲಿ ಕನಿಷ್ಠ ಒಂದು ಅಕ್ಷರ ಅಥವಾ ಅಂಕಿ ಇರಬೇಕು.',
+  'profiles.add': 'ಪ್ರೊಫೈಲ್ ಸೇರಿಸಿ',
+
+  'diet.any': 'ಯಾವುದೇ ನಿರ್ಬಂಧವಿಲ್ಲ',
+  'diet.vegetarian': 'ಸಸ್ಯಾಹಾರ',
+  'diet.vegan': 'ವೀಗನ್',
+  'diet.jain': 'ಜೈನ',
+
+  'allergen.peanut': 'ಕಡಲೆಕಾಯಿ',
+  'allergen.treeNuts': 'ಬೀಜಗಳು',
+  'allergen.milk': 'ಹಾಲು',
+  'allergen.gluten': 'ಗ್ಲೂಟನ್',
+  'allergen.soy': 'ಸೋಯಾ',
+  'allergen.sesame': 'ಎಳ್ಳು',
+  'allergen.egg': 'ಮೊಟ್ಟೆ',
+  'allergen.fish': 'ಮೀನು',
+  'allergen.shellfish': 'ಚಿಪ್ಪುಮೀನು',
+  'allergen.mustard': 'ಸಾಸಿವೆ',
+
+  'warning.unnamed': 'ಹೆಸರಿಲ್ಲದ ಪ್ರೊಫೈಲ್',
+  'warning.clear': 'ಯಾವುದೇ ಸಂಘರ್ಷ ಕಂಡುಬಂದಿಲ್ಲ',
+  'warning.avoid': 'ಸೂಕ್ತವಲ್ಲ',
+  'warning.caution': 'ತಿನ್ನುವ ಮೊದಲು ಪರಿಶೀಲಿಸಿ',
+
+  'issue.allergen': '{allergen} ಇದೆ ({term})',
+  'issue.declared': 'ಪ್ಯಾಕೆಟ್‌ನಲ್ಲಿ ಘೋಷಿಸಿರುವುದು: {term} ({allergen})',
+  'issue.nonVegMark': 'ಪ್ಯಾಕೆಟ್‌ನಲ್ಲಿ ಮಾಂಸಾಹಾರಿ (ಕಂದು ಚುಕ್ಕೆ) ಗುರುತು ಇದೆ',
+  'issue.animal': 'ಪ್ರಾಣಿ ಮೂಲ: {term}',
+  'issue.maybeAnimal': 'ಪ್ರಾಣಿ ಮೂಲವಾಗಿರಬಹುದು: {term}',
+  'issue.notVegan': 'ವೀಗನ್ ಅಲ್ಲ: {term}',
+  'issue.notJain': 'ಜೈನ ಆಹಾರಕ್ಕೆ ಸೂಕ್ತವಲ್ಲ: {term}',
+  'issue.addedSugar': 'ಸೇರಿಸಿದ ಸಕ್ಕರೆ: {term}',
+  'issue.sugarLevel': 'ಪ್ರತಿ 100gಗೆ {amount} g ಸಕ್ಕರೆ (ಕಡಿಮೆ-ಸಕ್ಕರೆ ಮಿತಿ {limit} g)',
+  'issue.avoidList': 'ನಿಮ್ಮ ತಪ್ಪಿಸುವ ಪಟ್ಟಿಯಲ್ಲಿ: {term}',
+};
@@ -0,0 +1,25 @@
+import { LanguageCode } from '../types';
+
+export interface LanguageInfo {
+  code: LanguageCode;
+  name: string; // English name, used in prompts
+  nativeName: string; // shown in the switcher
+  locale: string; // for Intl date and number formatting
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { code: 'en', name: 'English', nativeName: 'English', locale: 'en-IN' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', locale: 'hi-IN' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்', locale: 'ta-IN' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు', locale: 'te-IN' },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা', locale: 'bn-IN' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ', locale: 'kn-IN' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी', locale: 'mr-IN' },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const languageInfo = (code: LanguageCode) => LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && LANGUAGES.some(l => l.code === value);
@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Marathi UI strings ---
+
+export const mr: Messages = {
+  'nav.engine': 'फ्लॅश लाइट इंजिन',
+  'nav.fssai': 'FSSAI केंद्रित',
+  'nav.language': 'भाषा',
+
+  'hero.badge': 'भारताचा पोषण डिकोडर',
+  'hero.title': 'आता खाणे थांबवा',
+  'hero.highlight': 'लपलेली रसायने.',
+  'hero.subtitle': 'कोणत्याही भारतीय स्नॅक, पेय किंवा पॅकबंद अन्नाचे नाव लिहा किंवा त्याच्या लेबलचा फोटो घ्या, आणि त्यामागचे सत्य जाणून घ्या.',
+
+  'mode.single': 'एक उत्पादन',
+  'mode.compare': 'तुलना',
+  'mode.history': 'इतिहास',
+  'mode.profiles': 'प्रोफाइल',
+
+  'search.placeholder': 'उदा. कुरकुरे, मॅगी, किसान जॅम, अमूल चीज...',
+  'search.submit': 'तपासा',
+
+  'loading.title': 'घटकांचे विश्लेषण सुरू आहे...',
+  'loading.engine': 'Gemini 2.5 Flash Lite द्वारे चालवलेले',
+  'loading.cancel': 'रद्द करा',
+  'loading.ingredientsSoFar': 'आतापर्यंत {count} घटक वाचले',
+
+  'error.title': 'स्कॅन थांबले',
+  'error.subtitle': 'तात्पुरती अडचण आली आहे.',
+  'error.retry': 'पुन्हा प्रयत्न करा',
+  'error.rateLimit': 'विनंती मर्यादा ओलांडली. Gemini Flash Lite ची मर्यादा जास्त आहे, पण API सध्या व्यस्त असू शकते. थोडा वेळ थांबून पुन्हा प्रयत्न करा.',
+  'error.tooManyRequests': 'तुम्ही खूप वेगाने विश्लेषणे पाठवत आहात. कृपया {seconds} सेकंद थांबून पुन्हा प्रयत्न करा.',
+  'error.generic': 'उत्पादन स्कॅन करताना काहीतरी चूक झाली.',
+  'error.parse': 'विश्लेषण अनपेक्षित स्वरूपात आले. कृपया पुन्हा प्रयत्न करा.',
+
+  'result.complete': 'विश्लेषण पूर्ण',
+  'result.saved': 'जतन केले {age}',
+  'result.refresh': 'रिफ्रेश',
+  'result.score': 'गुण',
+  'result.noNutrition': 'पोषण तक्ता सापडला नाही',
+  'result.regulatoryAlert': 'नियामक इशारा',
+  'result.healthy': 'आरोग्यदायी व सुरक्षित',
+  'result.concerns': 'चिंता व रसायने',
+  'result.cleanLabel': 'स्वच्छ लेबल!',
+  'result.sources': 'माहितीचे स्रोत',
+  'result.newAnalysis': 'नवीन विश्लेषण',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'टीप: माहिती रिअल-टाइममध्ये घेतली जाते. कृपया पाकिटावरील लेबलशी पडताळून पहा.',
+  'footer.additiveDb': 'अ‍ॅडिटिव्ह डेटाबेस v{version}',
+
+  'export.menu': 'निर्यात',
+  'export.print': 'प्रिंट / PDF',
+  'export.markdown': 'Markdown अहवाल',
+  'export.json': 'JSON डेटा',
+  'export.share': 'शेअर लिंक कॉपी करा',
+  'export.copied': 'शेअर लिंक कॉपी झाली',
+  'export.copyManually': 'अहवाल शेअर करण्यासाठी ही लिंक कॉपी करा:',
+  'export.popupBlocked': 'अहवाल प्रिंट करण्यासाठी या साइटसाठी पॉप-अपला परवानगी द्या.',
+  'export.generated': 'PurePlate Bharat द्वारे {date} रोजी तयार केले',
+  'export.scoreLine': 'आरोग्य गुण: {score}/100',
+  'export.fssaiNotice': 'FSSAI सूचना',
+  'export.noNotice': 'या उत्पादनासाठी FSSAI सूचना नाही.',
+  'export.ingredient': 'घटक',
+  'export.quantity': 'प्रमाण',
+  'export.status': 'स्थिती',
+  'export.additives': 'अ‍ॅडिटिव्ह',
+  'export.notes': 'टिपा',
+  'export.noSources': 'कोणतेही स्रोत दिलेले नाहीत.',
+
+  'share.banner': 'शेअर केलेला अहवाल. तो पाठवला तसाच दाखवला आहे आणि तुमच्या इतिहासात जतन होत नाही.',
+  'share.error.corrupt': 'ही शेअर लिंक अपूर्ण किंवा खराब आहे.',
+  'share.error.unsupportedVersion': 'ही शेअर लिंक PurePlate Bharat च्या नवीन आवृत्तीने तयार केली आहे.',
+
+  'score.title': 'हे गुण कसे काढले',
+  'score.grade': 'Nutri-Score {grade} • {points} अंक',
+  'score.baseline': 'आधार',
+  'score.notDeclared': 'नमूद नाही',
+  'score.total': 'आरोग्य गुण',
+  'score.proteinCapped': 'ऊर्जा, साखर, संतृप्त चरबी आणि सोडियमचे दंड जास्त असल्याने प्रथिनांचे गुण धरलेले नाहीत.',
+
+  'nutrient.energyKcal': 'ऊर्जा',
+  'nutrient.sugarG': 'साखर',
+  'nutrient.saturatedFatG': 'संतृप्त चरबी',
+  'nutrient.sodiumMg': 'सोडियम',
+  'nutrient.fibreG': 'तंतुमय पदार्थ',
+  'nutrient.proteinG': 'प्रथिने',
+  'nutrient.fruitVegPercent': 'फळे / भाज्या',
+
+  'status.healthy': 'आरोग्यदायी',
+  'status.neutral': 'तटस्थ',
+  'status.harmful': 'हानिकारक',
+
+  'hazard.none': 'धोका नाही',
+  'hazard.low': 'कमी धोका',
+  'hazard.moderate': 'मध्यम धोका',
+  'hazard.high': 'जास्त धोका',
+
+  'verdict.fromPhoto': 'लेबल फोटोवरून',
+  'verdict.fromWeb': 'वेब शोधातून',
+  'verdict.database': 'निर्णय: INS डेटाबेस',
+  'verdict.model': 'निर्णय: AI मॉडेल',
+  'verdict.modelSaid': 'AI नुसार {status}',
+  'verdict.databaseRates': 'INS डेटाबेसनुसार हे {status} आहे',
+  'verdict.confirmed': 'INS डेटाबेसने पुष्टी केली',
+
+  'consistency.low': 'कमी विश्वासार्हता',
+  'consistency.quantity': 'दुसऱ्या रनमध्ये: {quantity}',
+  'consistency.status': 'दुसऱ्या रनमध्ये: {status}',
+  'consistency.missing': 'दुसऱ्या रनमध्ये आढळले नाही',
+
+  'confidence.high': 'उच्च विश्वासार्हता',
+  'confidence.medium': 'मध्यम विश्वासार्हता',
+  'confidence.low': 'कमी विश्वासार्हता',
+
+  'confidence.reason.photoLabel': 'घटक तुमच्या लेबल फोटोंमधून वाचले',
+  'confidence.reason.regulatorSource': 'सरकारी किंवा नियामक स्रोताचा आधार',
+  'confidence.reason.manufacturerSource': 'उत्पादकाच्या स्वतःच्या साइटचा आधार',
+  'confidence.reason.retailerSource': 'स्रोत फक्त ऑनलाइन विक्रेते आहेत',
+  'confidence.reason.weakSources': 'कोणताही अधिकृत किंवा उत्पादक स्रोत आढळला नाही',
+  'confidence.reason.noSources': 'कोणतेही वेब स्रोत दिले नाहीत',
+  'confidence.reason.runsAgree': 'दुसरा रन प्रत्येक घटकावर सहमत झाला',
+  'confidence.reason.runsDisagree': 'दुसरा रन {count} घटकांवर असहमत झाला',
+
+  'source.kind.regulator': 'नियामक',
+  'source.kind.manufacturer': 'उत्पादक',
+  'source.kind.retailer': 'विक्रेता',
+  'source.kind.other': 'इतर',
+
+  'verify.toggle': 'दुसऱ्या रनने पडताळा',
+  'verify.hint': 'विश्लेषण दोनदा चालवते आणि ज्या घटकांचे प्रमाण किंवा स्थिती बदलली ते चिन्हांकित करते. हळू, आणि दोन विश्लेषणे वापरते.',
+
+  'photo.upload': 'लेबल फोटो अपलोड करा',
+  'photo.take': 'फोटो घ्या',
+  'photo.remove': 'फोटो काढा',
+  'photo.alt': '{panel} पॅनेल',
+  'photo.readError': '"{name}" वाचता आला नाही. कृपया JPEG किंवा PNG फोटो वापरून पहा.',
+  'panel.ingredients': 'घटक',
+  'panel.nutrition': 'पोषण',
+
+  'barcode.placeholder': 'बारकोड (EAN-13 / UPC)',
+  'barcode.scan': 'स्कॅन',
+  'barcode.unknown': 'अज्ञात बारकोड. आम्ही तो वेबवर शोधू.',
+  'barcode.error.digits': 'बारकोडमध्ये फक्त अंक असतात.',
+  'barcode.error.length': 'बारकोडखाली छापलेला 13 अंकी EAN किंवा 12 अंकी UPC लिहा.',
+  'barcode.error.checksum': 'चेकसम जुळत नाही. कृपया अंक पुन्हा तपासा.',
+
+  'scanner.close': 'स्कॅनर बंद करा',
+  'scanner.hint': 'कॅमेरा पाकिटावरील बारकोडकडे धरा.',
+  'scanner.unavailable': 'कॅमेरा उपलब्ध नाही.',
+
+  'catalog.saved': 'बारकोड {barcode} तुमच्या कॅटलॉगमध्ये जतन केला',
+  'catalog.question': 'हे बारकोड {barcode} असलेले पाकीट आहे का?',
+  'catalog.brand': 'ब्रँड',
+  'catalog.name': 'उत्पादन',
+  'catalog.variant': 'प्रकार',
+  'catalog.packSize': 'पॅकचा आकार',
+  'catalog.save': 'खात्री करा आणि जतन करा',
+
+  'compare.placeholder': 'उत्पादन {index}, उदा. {example}',
+  'compare.remove': 'उत्पादन काढा',
+  'compare.add': 'उत्पादन जोडा',
+  'compare.submit': 'तुलना करा',
+  'compare.progress': '{total} पैकी {current} चे विश्लेषण',
+  'compare.onlyOne': 'फक्त एकाच उत्पादनाचे विश्लेषण झाले, त्यामुळे अजून तुलना करण्यासारखे काही नाही.',
+  'compare.sharedAdditives': 'सामायिक अ‍ॅडिटिव्ह',
+  'compare.perHundred': 'प्रति 100g घटक',
+
+  'alternatives.title': 'अधिक चांगले पर्याय',
+  'alternatives.intro': 'भारतात विकले जाणारे इतर {category}, विश्लेषण करून आरोग्य गुणांनुसार क्रमाने.',
+  'alternatives.find': 'आरोग्यदायी {category} शोधा',
+  'alternatives.none': 'सध्या कोणत्याही सूचनेचे विश्लेषण करता आले नाही.',
+  'alternatives.open': 'संपूर्ण विश्लेषण',
+  'alternatives.vsThis': 'या उत्पादनापेक्षा {delta}',
+
+  'diff.less': '{percent}% कमी {nutrient}',
+  'diff.more': '{percent}% जास्त {nutrient}',
+  'diff.without': '{label} नाही',
+  'diff.adds': '{label} आहे',
+  'diff.fewerHarmful': '{count} कमी हानिकारक घटक',
+  'diff.moreHarmful': '{count} जास्त हानिकारक घटक',
+
+  'category.instantNoodles': 'इन्स्टंट नूडल्स',
+  'category.namkeen': 'नमकीन',
+  'category.chips': 'चिप्स',
+  'category.biscuits': 'बिस्किटे',
+  'category.cereal': 'न्याहारीचे सीरियल',
+  'category.chocolate': 'चॉकलेट',
+  'category.juice': 'ज्यूस',
+  'category.softDrinks': 'शीतपेये',
+  'category.bread': 'ब्रेड',
+
+  'dimension.healthScore': 'आरोग्य गुण',
+  'dimension.harmfulCount': 'हानिकारक घटक',
+  'dimension.additiveCount': 'INS अ‍ॅडिटिव्ह',
+  'dimension.sugarG': 'साखर',
+  'dimension.saturatedFatG': 'संतृप्त चरबी',
+  'dimension.sodiumMg': 'सोडियम',
+
+  'history.search': 'मागील स्कॅन शोधा',
+  'history.unavailable': 'या ब्राउझरमध्ये स्कॅन इतिहास उपलब्ध नाही.',
+  'history.empty': 'अजून कोणतेही स्कॅन नाहीत. विश्लेषण केलेली उत्पादने इथे दिसतील.',
+  'history.noMatch': 'तुमच्या शोधाशी जुळणारे स्कॅन नाहीत.',
+  'history.score': 'गुण {score}',
+  'history.delete': 'स्कॅन हटवा',
+  'history.deleteFailed': 'स्कॅन हटवता आला नाही. कृपया पुन्हा प्रयत्न करा.',
+
+  'profiles.intro': 'तुम्ही ज्यांच्यासाठी खरेदी करता त्या प्रत्येक व्यक्तीसाठी प्रोफाइल जोडा. प्रत्येक विश्लेषण सर्व प्रोफाइलशी तपासले जाते.',
+  'profiles.namePlaceholder': 'नाव, उदा. आजी किंवा आरव',
+  'profiles.delete': 'प्रोफाइल हटवा',
+  'profiles.allergies': 'अ‍ॅलर्जी',
+  'profiles.diet': 'आहार',
+  'profiles.diabetic': 'मधुमेह',
+  'profiles.alsoAvoid': 'हेही टाळा',
+  'profiles.removeItem': 'काढा',
+  'profiles.avoidPlaceholder': 'उदा. palm oil',
+  'profiles.avoidInvalid': 'घटकाचे नाव लिहा; त्यात किमान एक अक्षर किंवा अंक असावा.',
+  'profiles.add': 'प्रोफाइल जोडा',
+
+  'diet.any': 'कोणतेही बंधन नाही',
+  'diet.vegetarian': 'शाकाहारी',
+  'diet.vegan': 'व्हीगन',
+  'diet.jain': 'जैन',
+
+  'allergen.peanut': 'शेंगदाणे',
+  'allergen.treeNuts': 'सुकामेवा',
+  'allergen.milk': 'दूध',
+  'allergen.gluten': 'ग्लूटेन',
+  'allergen.soy': 'सोया',
+  'allergen.sesame': 'तीळ',
+  'allergen.egg': 'अंडे',
+  'allergen.fish': 'मासे',
+  'allergen.shellfish': 'कवचधारी मासे',
+  'allergen.mustard': 'मोहरी',
+
+  'warning.unnamed': 'नाव नसलेली प्रोफाइल',
+  'warning.clear': 'कोणताही विरोध आढळला नाही',
+  'warning.avoid': 'योग्य नाही',
+  'warning.caution': 'खाण्यापूर्वी तपासा',
+
+  'issue.allergen': '{allergen} आहे ({term})',
+  'issue.declared': 'पाकिटावर नमूद: {term} ({allergen})',
+  'issue.nonVegMark': 'पाकिटावर मांसाहारी (तपकिरी ठिपका) चिन्ह आहे',
+  'issue.animal': 'प्राणिजन्य: {term}',
+  'issue.maybeAnimal': 'प्राणिजन्य असू शकते: {term}',
+  'issue.notVegan': 'व्हीगन नाही: {term}',
+  'issue.notJain': 'जैन आहारासाठी योग्य नाही: {term}',
+  'issue.addedSugar': 'मिसळलेली साखर: {term}',
+  'issue.sugarLevel': 'प्रति 100g {amount} g साखर (कमी-साखर मर्यादा {limit} g)',
+  'issue.avoidList': 'तुमच्या टाळण्याच्या यादीत: {term}',
+};
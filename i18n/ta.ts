@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Tamil UI strings ---
+
+export const ta: Messages = {
+  'nav.engine': 'ஃபிளாஷ் லைட் இன்ஜின்',
+  'nav.fssai': 'FSSAI மையப்படுத்தியது',
+  'nav.language': 'மொழி',
+
+  'hero.badge': 'இந்தியாவின் ஊட்டச்சத்து டிகோடர்',
+  'hero.title': 'இனி சாப்பிடாதீர்கள்',
+  'hero.highlight': 'மறைந்திருக்கும் ரசாயனங்களை.',
+  'hero.subtitle': 'எந்த இந்திய ஸ்நாக், பானம் அல்லது பேக் செய்யப்பட்ட உணவின் பெயரையும் உள்ளிடுங்கள் அல்லது அதன் லேபிளைப் படம் எடுங்கள், அதன் உண்மையை அறியுங்கள்.',
+
+  'mode.single': 'ஒரு பொருள்',
+  'mode.compare': 'ஒப்பிடு',
+  'mode.history': 'வரலாறு',
+  'mode.profiles': 'சுயவிவரங்கள்',
+
+  'search.placeholder': 'எ.கா. குர்குரே, மேகி, கிசான் ஜாம், அமுல் சீஸ்...',
+  'search.submit': 'சரிபார்',
+
+  'loading.title': 'பொருட்கள் பகுப்பாய்வு செய்யப்படுகின்றன...',
+  'loading.engine': 'Gemini 2.5 Flash Lite மூலம் இயங்குகிறது',
+  'loading.cancel': 'ரத்துசெய்',
+  'loading.ingredientsSoFar': 'இதுவரை {count} பொருட்கள் படிக்கப்பட்டன',
+
+  'error.title': 'ஸ்கேன் தடைபட்டது',
+  'error.subtitle': 'ஒரு தற்காலிக சிக்கல் ஏற்பட்டது.',
+  'error.retry': 'மீண்டும் முயலவும்',
+  'error.rateLimit': 'கோரிக்கை வரம்பு மீறப்பட்டது. Gemini Flash Lite-க்கு அதிக வரம்பு உண்டு, ஆனால் API இப்போது பரபரப்பாக இருக்கலாம். சிறிது நேரம் கழித்து மீண்டும் முயலவும்.',
+  'error.tooManyRequests': 'நீங்கள் மிக வேகமாக பகுப்பாய்வுகளை அனுப்புகிறீர்கள். {seconds} விநாடிகள் காத்திருந்து மீண்டும் முயலவும்.',
+  'error.generic': 'பொருளை ஸ்கேன் செய்யும்போது ஏதோ தவறு நடந்தது.',
+  'error.parse': 'பகுப்பாய்வு எதிர்பாராத வடிவத்தில் வந்தது. மீண்டும் முயலவும்.',
+
+  'result.complete': 'பகுப்பாய்வு முடிந்தது',
+  'result.saved': 'சேமிக்கப்பட்டது {age}',
+  'result.refresh': 'புதுப்பி',
+  'result.score': 'மதிப்பெண்',
+  'result.noNutrition': 'ஊட்டச்சத்து அட்டவணை கிடைக்கவில்லை',
+  'result.regulatoryAlert': 'ஒழுங்குமுறை எச்சரிக்கை',
+  'result.healthy': 'ஆரோக்கியமானது & பாதுகாப்பானது',
+  'result.concerns': 'கவலைகள் & ரசாயனங்கள்',
+  'result.cleanLabel': 'சுத்தமான லேபிள்!',
+  'result.sources': 'தகவல் ஆதாரங்கள்',
+  'result.newAnalysis': 'புதிய பகுப்பாய்வு',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'குறிப்பு: தரவு நேரடியாகப் பெறப்படுகிறது. பேக்கில் உள்ள லேபிளுடன் சரிபார்க்கவும்.',
+  'footer.additiveDb': 'சேர்க்கைப் பொருள் தரவுத்தளம் v{version}',
+
+  'export.menu': 'ஏற்றுமதி',
+  'export.print': 'அச்சிடு / PDF',
+  'export.markdown': 'Markdown அறிக்கை',
+  'export.json': 'JSON தரவு',
+  'export.share': 'பகிர்வு இணைப்பை நகலெடு',
+  'export.copied': 'பகிர்வு இணைப்பு நகலெடுக்கப்பட்டது',
+  'export.copyManually': 'அறிக்கையைப் பகிர இந்த இணைப்பை நகலெடுக்கவும்:',
+  'export.popupBlocked': 'அறிக்கையை அச்சிட இந்தத் தளத்திற்கு பாப்-அப்களை அனுமதிக்கவும்.',
+  'export.generated': 'PurePlate Bharat மூலம் {date} அன்று உருவாக்கப்பட்டது',
+  'export.scoreLine': 'ஆரோக்கிய மதிப்பெண்: {score}/100',
+  'export.fssaiNotice': 'FSSAI அறிவிப்பு',
+  'export.noNotice': 'இந்தத் தயாரிப்புக்கு FSSAI அறிவிப்பு இல்லை.',
+  'export.ingredient': 'பொருள்',
+  'export.quantity': 'அளவு',
+  'export.status': 'நிலை',
+  'export.additives': 'சேர்க்கைப் பொருட்கள்',
+  'export.notes': 'குறிப்புகள்',
+  'export.noSources': 'ஆதாரங்கள் எதுவும் குறிப்பிடப்படவில்லை.',
+
+  'share.banner': 'பகிரப்பட்ட அறிக்கை. இது அனுப்பப்பட்டபடியே காட்டப்படுகிறது, உங்கள் வரலாற்றில் சேமிக்கப்படாது.',
+  'share.error.corrupt': 'இந்தப் பகிர்வு இணைப்பு முழுமையற்றது அல்லது சேதமடைந்துள்ளது.',
+  'share.error.unsupportedVersion': 'இந்தப் பகிர்வு இணைப்பு PurePlate Bharat-இன் புதிய பதிப்பில் உருவாக்கப்பட்டது.',
+
+  'score.title': 'இந்த மதிப்பெண் எப்படிக் கணக்கிடப்பட்டது',
+  'score.grade': 'Nutri-Score {grade} • {points} புள்ளிகள்',
+  'score.baseline': 'அடிப்படை',
+  'score.notDeclared': 'அறிவிக்கப்படவில்லை',
+  'score.total': 'ஆரோக்கிய மதிப்பெண்',
+  'score.proteinCapped': 'ஆற்றல், சர்க்கரை, நிறைவுற்ற கொழுப்பு மற்றும் சோடியம் அபராதங்கள் அதிகமாக இருப்பதால் புரதத்திற்கு புள்ளிகள் இல்லை.',
+
+  'nutrient.energyKcal': 'ஆற்றல்',
+  'nutrient.sugarG': 'சர்க்கரை',
+  'nutrient.saturatedFatG': 'நிறைவுற்ற கொழுப்பு',
+  'nutrient.sodiumMg': 'சோடியம்',
+  'nutrient.fibreG': 'நார்ச்சத்து',
+  'nutrient.proteinG': 'புரதம்',
+  'nutrient.fruitVegPercent': 'பழம் / காய்கறி',
+
+  'status.healthy': 'ஆரோக்கியமானது',
+  'status.neutral': 'நடுநிலை',
+  'status.harmful': 'தீங்கானது',
+
+  'hazard.none': 'ஆபத்து இல்லை',
+  'hazard.low': 'குறைந்த ஆபத்து',
+  'hazard.moderate': 'மிதமான ஆபத்து',
+  'hazard.high': 'அதிக ஆபத்து',
+
+  'verdict.fromPhoto': 'லேபிள் படத்திலிருந்து',
+  'verdict.fromWeb': 'இணையத் தேடலிலிருந்து',
+  'verdict.database': 'தீர்ப்பு: INS தரவுத்தளம்',
+  'verdict.model': 'தீர்ப்பு: AI மாடல்',
+  'verdict.modelSaid': 'AI கூறியது: {status}',
+  'verdict.databaseRates': 'INS தரவுத்தளம் இதை {status} என மதிப்பிடுகிறது',
+  'verdict.confirmed': 'INS தரவுத்தளத்தால் உறுதிசெய்யப்பட்டது',
+
+  'consistency.low': 'குறைந்த நம்பகத்தன்மை',
+  'consistency.quantity': 'மற்ற ஓட்டம்: {quantity}',
+  'consistency.status': 'மற்ற ஓட்டம்: {status}',
+  'consistency.missing': 'மற்ற ஓட்டத்தில் இல்லை',
+
+  'confidence.high': 'உயர் நம்பகத்தன்மை',
+  'confidence.medium': 'நடுத்தர நம்பகத்தன்மை',
+  'confidence.low': 'குறைந்த நம்பகத்தன்மை',
+
+  'confidence.reason.photoLabel': 'பொருட்கள் உங்கள் லேபிள் புகைப்படங்களிலிருந்து படிக்கப்பட்டன',
+  'confidence.reason.regulatorSource': 'அரசு அல்லது ஒழுங்குமுறை ஆதாரத்தால் ஆதரிக்கப்படுகிறது',
+  'confidence.reason.manufacturerSource': 'உற்பத்தியாளரின் சொந்த தளத்தால் ஆதரிக்கப்படுகிறது',
+  'confidence.reason.retailerSource': 'ஆதாரங்கள் ஆன்லைன் விற்பனையாளர்கள் மட்டுமே',
+  'confidence.reason.weakSources': 'அதிகாரப்பூர்வ அல்லது உற்பத்தியாளர் ஆதாரம் இல்லை',
+  'confidence.reason.noSources': 'வலை ஆதாரங்கள் எதுவும் குறிப்பிடப்படவில்லை',
+  'confidence.reason.runsAgree': 'இரண்டாவது ஓட்டம் எல்லா பொருட்களிலும் ஒத்துப்போனது',
+  'confidence.reason.runsDisagree': 'இரண்டாவது ஓட்டம் {count} பொருட்களில் முரண்பட்டது',
+
+  'source.kind.regulator': 'ஒழுங்குமுறை அமைப்பு',
+  'source.kind.manufacturer': 'உற்பத்தியாளர்',
+  'source.kind.retailer': 'விற்பனையாளர்',
+  'source.kind.other': 'மற்றவை',
+
+  'verify.toggle': 'இரண்டாவது ஓட்டத்துடன் சரிபார்',
+  'verify.hint': 'பகுப்பாய்வை இருமுறை இயக்கி, அளவு அல்லது நிலை மாறிய பொருட்களைக் குறிக்கும். மெதுவானது, இரண்டு பகுப்பாய்வுகளைப் பயன்படுத்தும்.',
+
+  'photo.upload': 'லேபிள் படத்தைப் பதிவேற்று',
+  'photo.take': 'படம் எடு',
+  'photo.remove': 'படத்தை நீக்கு',
+  'photo.alt': '{panel} பகுதி',
+  'photo.readError': '"{name}" படிக்க முடியவில்லை. JPEG அல்லது PNG படத்தை முயலவும்.',
+  'panel.ingredients': 'பொருட்கள்',
+  'panel.nutrition': 'ஊட்டச்சத்து',
+
+  'barcode.placeholder': 'பார்கோடு (EAN-13 / UPC)',
+  'barcode.scan': 'ஸ்கேன்',
+  'barcode.unknown': 'அறியப்படாத பார்கோடு. இணையத்தில் தேடுவோம்.',
+  'barcode.error.digits': 'பார்கோடில் எண்கள் மட்டுமே இருக்கும்.',
+  'barcode.error.length': 'பார்கோடின் கீழ் அச்சிடப்பட்ட 13 இலக்க EAN அல்லது 12 இலக்க UPC-ஐ உள்ளிடவும்.',
+  'barcode.error.checksum': 'சரிபார்ப்பு இலக்கம் பொருந்தவில்லை. இலக்கங்களை மீண்டும் சரிபார்க்கவும்.',
+
+  'scanner.close': 'ஸ்கேனரை மூடு',
+  'scanner.hint': 'கேமராவை பேக்கின் பார்கோடை நோக்கி வைக்கவும்.',
+  'scanner.unavailable': 'கேமரா கிடைக்கவில்லை.',
+
+  'catalog.saved': 'பார்கோடு {barcode} உங்கள் பட்டியலில் சேமிக்கப்பட்டது',
+  'catalog.question': 'இது பார்கோடு {barcode} கொண்ட பேக்கா?',
+  'catalog.brand': 'பிராண்ட்',
+  'catalog.name': 'பொருள்',
+  'catalog.variant': 'வகை',
+  'catalog.packSize': 'பேக் அளவு',
+  'catalog.save': 'உறுதிசெய்து சேமி',
+
+  'compare.placeholder': 'பொருள் {index}, எ.கா. {example}',
+  'compare.remove': 'பொருளை நீக்கு',
+  'compare.add': 'பொருளைச் சேர்',
+  'compare.submit': 'ஒப்பிடு',
+  'compare.progress': '{total}-இல் {current} பகுப்பாய்வு',
+  'compare.onlyOne': 'ஒரு பொருளை மட்டுமே பகுப்பாய்வு செய்ய முடிந்தது, எனவே ஒப்பிட இன்னும் எதுவும் இல்லை.',
+  'compare.sharedAdditives': 'பொதுவான சேர்க்கைப் பொருட்கள்',
+  'compare.perHundred': '100g-க்கு பொருட்கள்',
+
+  'alternatives.title': 'சிறந்த மாற்றுகள்',
+  'alternatives.intro': 'இந்தியாவில் விற்கப்படும் பிற {category}, பகுப்பாய்வு செய்து ஆரோக்கிய மதிப்பெண்படி வரிசைப்படுத்தப்பட்டவை.',
+  'alternatives.find': 'ஆரோக்கியமான {category} தேடு',
+  'alternatives.none': 'இப்போது எந்தப் பரிந்துரையையும் பகுப்பாய்வு செய்ய முடியவில்லை.',
+  'alternatives.open': 'முழு பகுப்பாய்வு',
+  'alternatives.vsThis': 'இந்தத் தயாரிப்பை விட {delta}',
+
+  'diff.less': '{percent}% குறைவான {nutrient}',
+  'diff.more': '{percent}% அதிகமான {nutrient}',
+  'diff.without': '{label} இல்லை',
+  'diff.adds': '{label} உள்ளது',
+  'diff.fewerHarmful': '{count} குறைவான தீங்கான பொருட்கள்',
+  'diff.moreHarmful': '{count} அதிகமான தீங்கான பொருட்கள்',
+
+  'category.instantNoodles': 'இன்ஸ்டன்ட் நூடுல்ஸ்',
+  'category.namkeen': 'நம்கீன்',
+  'category.chips': 'சிப்ஸ்',
+  'category.biscuits': 'பிஸ்கட்கள்',
+  'category.cereal': 'காலை உணவு சீரியல்கள்',
+  'category.chocolate': 'சாக்லேட்டுகள்',
+  'category.juice': 'பழச்சாறுகள்',
+  'category.softDrinks': 'குளிர்பானங்கள்',
+  'category.bread': 'ரொட்டிகள்',
+
+  'dimension.healthScore': 'ஆரோக்கிய மதிப்பெண்',
+  'dimension.harmfulCount': 'தீங்கான பொருட்கள்',
+  'dimension.additiveCount': 'INS சேர்க்கைப் பொருட்கள்',
+  'dimension.sugarG': 'சர்க்கரை',
+  'dimension.saturatedFatG': 'நிறைவுற்ற கொழுப்பு',
+  'dimension.sodiumMg': 'சோடியம்',
+
+  'history.search': 'முந்தைய ஸ்கேன்களைத் தேடு',
+  'history.unavailable': 'இந்த உலாவியில் ஸ்கேன் வரலாறு கிடைக்கவில்லை.',
+  'history.empty': 'இன்னும் ஸ்கேன்கள் இல்லை. பகுப்பாய்வு செய்த பொருட்கள் இங்கே தோன்றும்.',
+  'history.noMatch': 'உங்கள் தேடலுக்குப் பொருந்தும் ஸ்கேன் இல்லை.',
+  'history.score': 'மதிப்பெண் {score}',
+  'history.delete': 'ஸ்கேனை நீக்கு',
+  'history.deleteFailed': 'ஸ்கேனை நீக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+  'profiles.intro': 'நீங்கள் யாருக்காக வாங்குகிறீர்களோ அவர்கள் ஒவ்வொருவருக்கும் ஒரு சுயவிவரத்தைச் சேர்க்கவும். ஒவ்வொரு பகுப்பாய்வும் எல்லா சுயவிவரங்களுடனும் சரிபார்க்கப்படும்.',
+  'profiles.namePlaceholder': 'பெயர், எ.கா. பாட்டி அல்லது ஆரவ்',
+  'profiles.delete': 'சுயவிவரத்தை நீக்கு',
+  'profiles.allergies': 'ஒவ்வாமைகள்',
+  'profiles.diet': 'உணவுமுறை',
+  'profiles.diabetic': 'நீரிழிவு',
+  'profiles.alsoAvoid': 'இவற்றையும் தவிர்',
+  'profiles.removeItem': 'நீக்கு',
+  'profiles.avoidPlaceholder': 'எ.கா. palm oil',
+  'profiles.avoidInvalid': 'பொருளின் பெயரை உள்ளிடவும்; அதில் குறைந்தது ஒரு எழுத்து அல்லது எண் இருக்க வேண்டும்.',
+  'profiles.add': 'சுயவிவரத்தைச் சேர்',
+
+  'diet.any': 'கட்டுப்பாடு இல்லை',
+  'diet.vegetarian': 'சைவம்',
+  'diet.vegan': 'வீகன்',
+  'diet.jain': 'ஜைனம்',
+
+  'allergen.peanut': 'வேர்க்கடலை',
+  'allergen.treeNuts': 'கொட்டைகள்',
+  'allergen.milk': 'பால்',
+  'allergen.gluten': 'குளூட்டன்',
+  'allergen.soy': 'சோயா',
+  'allergen.sesame': 'எள்',
+  'allergen.egg': 'முட்டை',
+  'allergen.fish': 'மீன்',
+  'allergen.shellfish': 'ஓட்டுமீன்',
+  'allergen.mustard': 'கடுகு',
+
+  'warning.unnamed': 'பெயரில்லாத சுயவிவரம்',
+  'warning.clear': 'முரண்பாடு எதுவும் இல்லை',
+  'warning.avoid': 'ஏற்றதல்ல',
+  'warning.caution': 'சாப்பிடும் முன் சரிபார்க்கவும்',
+
+  'issue.allergen': '{allergen} உள்ளது ({term})',
+  'issue.declared': 'பேக்கில் குறிப்பிடப்பட்டது: {term} ({allergen})',
+  'issue.nonVegMark': 'பேக்கில் அசைவ (பழுப்புப் புள்ளி) குறி உள்ளது',
+  'issue.animal': 'விலங்கு மூலம்: {term}',
+  'issue.maybeAnimal': 'விலங்கு மூலமாக இருக்கலாம்: {term}',
+  'issue.notVegan': 'வீகன் அல்ல: {term}',
+  'issue.notJain': 'ஜைன உணவுக்கு ஏற்றதல்ல: {term}',
+  'issue.addedSugar': 'சேர்க்கப்பட்ட சர்க்கரை: {term}',
+  'issue.sugarLevel': '100g-க்கு {amount} g சர்க்கரை (குறைந்த சர்க்கரை வரம்பு {limit} g)',
+  'issue.avoidList': 'உங்கள் தவிர்ப்புப் பட்டியலில்: {term}',
+};
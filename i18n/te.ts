@@ -0,0 +1,251 @@
+import { Messages } from './en';
+
+// --- Telugu UI strings ---
+
+export const te: Messages = {
+  'nav.engine': 'ఫ్లాష్ లైట్ ఇంజిన్',
+  'nav.fssai': 'FSSAI కేంద్రితం',
+  'nav.language': 'భాష',
+
+  'hero.badge': 'భారతదేశ పోషకాహార డీకోడర్',
+  'hero.title': 'ఇక తినకండి',
+  'hero.highlight': 'దాగి ఉన్న రసాయనాలను.',
+  'hero.subtitle': 'ఏదైనా భారతీయ స్నాక్, పానీయం లేదా ప్యాక్ చేసిన ఆహారం పేరు నమోదు చేయండి లేదా దాని లేబుల్ ఫోటో తీయండి, దాని వెనుక ఉన్న నిజం తెలుసుకోండి.',
+
+  'mode.single': 'ఒక ఉత్పత్తి',
+  'mode.compare': 'పోల్చండి',
+  'mode.history': 'చరిత్ర',
+  'mode.profiles': 'ప్రొఫైల్స్',
+
+  'search.placeholder': 'ఉదా. కుర్కురే, మ్యాగీ, కిసాన్ జామ్, అమూల్ చీజ్...',
+  'search.submit': 'తనిఖీ',
+
+  'loading.title': 'పదార్థాలను విశ్లేషిస్తోంది...',
+  'loading.engine': 'Gemini 2.5 Flash Lite ఆధారంగా',
+  'loading.cancel': 'రద్దు చేయి',
+  'loading.ingredientsSoFar': 'ఇప్పటివరకు {count} పదార్థాలు చదవబడ్డాయి',
+
+  'error.title': 'స్కాన్ ఆగిపోయింది',
+  'error.subtitle': 'తాత్కాలిక సమస్య ఎదురైంది.',
+  'error.retry': 'మళ్లీ ప్రయత్నించండి',
+  'error.rateLimit': 'అభ్యర్థనల పరిమితి దాటింది. Gemini Flash Lite పరిమితులు ఎక్కువే, కానీ API ఇప్పుడు బిజీగా ఉండవచ్చు. కొద్దిసేపు ఆగి మళ్లీ ప్రయత్నించండి.',
+  'error.tooManyRequests': 'మీరు చాలా వేగంగా విశ్లేషణలు పంపుతున్నారు. దయచేసి {seconds} సెకన్లు ఆగి మళ్లీ ప్రయత్నించండి.',
+  'error.generic': 'ఉత్పత్తిని స్కాన్ చేస్తున్నప్పుడు ఏదో తప్పు జరిగింది.',
+  'error.parse': 'విశ్లేషణ ఊహించని రూపంలో వచ్చింది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+
+  'result.complete': 'విశ్లేషణ పూర్తయింది',
+  'result.saved': 'సేవ్ చేయబడింది {age}',
+  'result.refresh': 'రిఫ్రెష్',
+  'result.score': 'స్కోర్',
+  'result.noNutrition': 'పోషకాహార పట్టిక కనిపించలేదు',
+  'result.regulatoryAlert': 'నియంత్రణ హెచ్చరిక',
+  'result.healthy': 'ఆరోగ్యకరం & సురక్షితం',
+  'result.concerns': 'ఆందోళనలు & రసాయనాలు',
+  'result.cleanLabel': 'శుభ్రమైన లేబుల్!',
+  'result.sources': 'సమాచార మూలాలు',
+  'result.newAnalysis': 'కొత్త విశ్లేషణ',
+
+  'footer.engine': 'PurePlate Bharat AI • Gemini 2.5 Flash Lite',
+  'footer.note': 'గమనిక: డేటా రియల్-టైమ్‌లో సేకరించబడుతుంది. దయచేసి ప్యాకెట్ లేబుల్‌తో సరిచూసుకోండి.',
+  'footer.additiveDb': 'సంకలిత డేటాబేస్ v{version}',
+
+  'export.menu': 'ఎగుమతి',
+  'export.print': 'ప్రింట్ / PDF',
+  'export.markdown': 'Markdown నివేదిక',
+  'export.json': 'JSON డేటా',
+  'export.share': 'షేర్ లింక్ కాపీ చేయండి',
+  'export.copied': 'షేర్ లింక్ కాపీ అయింది',
+  'export.copyManually': 'నివేదికను పంచుకోవడానికి ఈ లింక్‌ను కాపీ చేయండి:',
+  'export.popupBlocked': 'నివేదికను ప్రింట్ చేయడానికి ఈ సైట్‌కు పాప్-అప్‌లను అనుమతించండి.',
+  'export.generated': 'PurePlate Bharat ద్వారా {date}న రూపొందించబడింది',
+  'export.scoreLine': 'ఆరోగ్య స్కోరు: {score}/100',
+  'export.fssaiNotice': 'FSSAI నోటీసు',
+  'export.noNotice': 'ఈ ఉత్పత్తికి FSSAI నోటీసు లేదు.',
+  'export.ingredient': 'పదార్థం',
+  'export.quantity': 'పరిమాణం',
+  'export.status': 'స్థితి',
+  'export.additives': 'సంకలితాలు',
+  'export.notes': 'గమనికలు',
+  'export.noSources': 'ఏ మూలాలూ పేర్కొనబడలేదు.',
+
+  'share.banner': 'పంచుకున్న నివేదిక. ఇది పంపినట్లుగానే చూపబడుతుంది, మీ చరిత్రలో సేవ్ చేయబడదు.',
+  'share.error.corrupt': 'ఈ షేర్ లింక్ అసంపూర్ణంగా లేదా దెబ్బతిన్నది.',
+  'share.error.unsupportedVersion': 'ఈ షేర్ లింక్ PurePlate Bharat కొత్త వెర్షన్‌తో తయారైంది.',
+
+  'score.title': 'ఈ స్కోర్ ఎలా లెక్కించబడింది',
+  'score.grade': 'Nutri-Score {grade} • {points} పాయింట్లు',
+  'score.baseline': 'ఆధారం',
+  'score.notDeclared': 'ప్రకటించలేదు',
+  'score.total': 'ఆరోగ్య స్కోర్',
+  'score.proteinCapped': 'శక్తి, చక్కెర, సంతృప్త కొవ్వు మరియు సోడియం జరిమానాలు ఎక్కువగా ఉన్నందున ప్రోటీన్‌కు పాయింట్లు ఇవ్వలేదు.',
+
+  'nutrient.energyKcal': 'శక్తి',
+  'nutrient.sugarG': 'చక్కెర',
+  'nutrient.saturatedFatG': 'సంతృప్త కొవ్వు',
+  'nutrient.sodiumMg': 'సోడియం',
+  'nutrient.fibreG': 'పీచు',
+  'nutrient.proteinG': 'ప్రోటీన్',
+  'nutrient.fruitVegPercent': 'పండ్లు / కూరగాయలు',
+
+  'status.healthy': 'ఆరోగ్యకరం',
+  'status.neutral': 'తటస్థం',
+  'status.harmful': 'హానికరం',
+
+  'hazard.none': 'ప్రమాదం లేదు',
+  'hazard.low': 'తక్కువ ప్రమాదం',
+  'hazard.moderate': 'మధ్యస్థ ప్రమాదం',
+  'hazard.high': 'అధిక ప్రమాదం',
+
+  'verdict.fromPhoto': 'లేబుల్ ఫోటో నుండి',
+  'verdict.fromWeb': 'వెబ్ శోధన నుండి',
+  'verdict.database': 'తీర్పు: INS డేటాబేస్',
+  'verdict.model': 'తీర్పు: AI మోడల్',
+  'verdict.modelSaid': 'AI ప్రకారం {status}',
+  'verdict.databaseRates': 'INS డేటాబేస్ దీన్ని {status}గా రేట్ చేస్తుంది',
+  'verdict.confirmed': 'INS డేటాబేస్ ధృవీకరించింది',
+
+  'consistency.low': 'తక్కువ విశ్వసనీయత',
+  'consistency.quantity': 'మరో రన్: {quantity}',
+  'consistency.status': 'మరో రన్: {status}',
+  'consistency.missing': 'మరో రన్‌లో లేదు',
+
+  'confidence.high': 'అధిక విశ్వసనీయత',
+  'confidence.medium': 'మధ్యస్థ విశ్వసనీయత',
+  'confidence.low': 'తక్కువ విశ్వసనీయత',
+
+  'confidence.reason.photoLabel': 'పదార్థాలు మీ లేబుల్ ఫోటోల నుండి చదవబడ్డాయి',
+  'confidence.reason.regulatorSource': 'ప్రభుత్వ లేదా నియంత్రణ సంస్థ మూలం ఆధారంగా',
+  'confidence.reason.manufacturerSource': 'తయారీదారు స్వంత సైట్ ఆధారంగా',
+  'confidence.reason.retailerSource': 'మూలాలు ఆన్‌లైన్ విక్రేతలు మాత్రమే',
+  'confidence.reason.weakSources': 'అధికారిక లేదా తయారీదారు మూలం కనబడలేదు',
+  'confidence.reason.noSources': 'వెబ్ మూలాలు ఏవీ ఇవ్వలేదు',
+  'confidence.reason.runsAgree': 'రెండో రన్ ప్రతి పదార్థంపై ఏకీభవించింది',
+  'confidence.reason.runsDisagree': 'రెండో రన్ {count} పదార్థాలపై విభేదించింది',
+
+  'source.kind.regulator': 'నియంత్రణ సంస్థ',
+  'source.kind.manufacturer': 'తయారీదారు',
+  'source.kind.retailer': 'విక్రేత',
+  'source.kind.other': 'ఇతర',
+
+  'verify.toggle': 'రెండో రన్‌తో ధృవీకరించు',
+  'verify.hint': 'విశ్లేషణను రెండుసార్లు నడిపి, పరిమాణం లేదా స్థితి మారిన పదార్థాలను గుర్తిస్తుంది. నెమ్మదిగా ఉంటుంది, రెండు విశ్లేషణలు వాడుతుంది.',
+
+  'photo.upload': 'లేబుల్ ఫోటో అప్‌లోడ్ చేయండి',
+  'photo.take': 'ఫోటో తీయండి',
+  'photo.remove': 'ఫోటో తొలగించండి',
+  'photo.alt': '{panel} ప్యానెల్',
+  'photo.readError': '"{name}" చదవలేకపోయాం. దయచేసి JPEG లేదా PNG చిత్రాన్ని ప్రయత్నించండి.',
+  'panel.ingredients': 'పదార్థాలు',
+  'panel.nutrition': 'పోషకాహారం',
+
+  'barcode.placeholder': 'బార్‌కోడ్ (EAN-13 / UPC)',
+  'barcode.scan': 'స్కాన్',
+  'barcode.unknown': 'తెలియని బార్‌కోడ్. దీని కోసం వెబ్‌లో వెతుకుతాం.',
+  'barcode.error.digits': 'బార్‌కోడ్‌లో అంకెలు మాత్రమే ఉంటాయి.',
+  'barcode.error.length': 'బార్‌కోడ్ కింద ముద్రించిన 13 అంకెల EAN లేదా 12 అంకెల UPC నమోదు చేయండి.',
+  'barcode.error.checksum': 'చెక్‌సమ్ సరిపోలలేదు. దయచేసి అంకెలను మళ్లీ తనిఖీ చేయండి.',
+
+  'scanner.close': 'స్కానర్ మూసివేయండి',
+  'scanner.hint': 'కెమెరాను ప్యాకెట్‌పై ఉన్న బార్‌కోడ్ వైపు ఉంచండి.',
+  'scanner.unavailable': 'కెమెరా అందుబాటులో లేదు.',
+
+  'catalog.saved': 'బార్‌కోడ్ {barcode} మీ కేటలాగ్‌లో సేవ్ చేయబడింది',
+  'catalog.question': 'ఇది బార్‌కోడ్ {barcode} ఉన్న ప్యాకెట్టేనా?',
+  'catalog.brand': 'బ్రాండ్',
+  'catalog.name': 'ఉత్పత్తి',
+  'catalog.variant': 'రకం',
+  'catalog.packSize': 'ప్యాక్ పరిమాణం',
+  'catalog.save': 'నిర్ధారించి సేవ్ చేయండి',
+
+  'compare.placeholder': 'ఉత్పత్తి {index}, ఉదా. {example}',
+  'compare.remove': 'ఉత్పత్తిని తొలగించండి',
+  'compare.add': 'ఉత్పత్తిని జోడించండి',
+  'compare.submit': 'పోల్చండి',
+  'compare.progress': '{total}లో {current} విశ్లేషిస్తోంది',
+  'compare.onlyOne': 'ఒక ఉత్పత్తిని మాత్రమే విశ్లేషించగలిగాం, కాబట్టి ఇంకా పోల్చడానికి ఏమీ లేదు.',
+  'compare.sharedAdditives': 'ఉమ్మడి సంకలితాలు',
+  'compare.perHundred': '100gకి పదార్థాలు',
+
+  'alternatives.title': 'మెరుగైన ప్రత్యామ్నాయాలు',
+  'alternatives.intro': 'భారతదేశంలో అమ్మే ఇతర {category}, విశ్లేషించి ఆరోగ్య స్కోరు ప్రకారం వరుసగా.',
+  'alternatives.find': 'ఆరోగ్యకరమైన {category} కనుగొనండి',
+  'alternatives.none': 'ప్రస్తుతం ఏ సూచననూ విశ్లేషించలేకపోయాం.',
+  'alternatives.open': 'పూర్తి విశ్లేషణ',
+  'alternatives.vsThis': 'ఈ ఉత్పత్తితో పోలిస్తే {delta}',
+
+  'diff.less': '{percent}% తక్కువ {nutrient}',
+  'diff.more': '{percent}% ఎక్కువ {nutrient}',
+  'diff.without': '{label} లేదు',
+  'diff.adds': '{label} ఉంది',
+  'diff.fewerHarmful': '{count} తక్కువ హానికర పదార్థాలు',
+  'diff.moreHarmful': '{count} ఎక్కువ హానికర పదార్థాలు',
+
+  'category.instantNoodles': 'ఇన్‌స్టంట్ నూడుల్స్',
+  'category.namkeen': 'నమ్కీన్',
+  'category.chips': 'చిప్స్',
+  'category.biscuits': 'బిస్కెట్లు',
+  'category.cereal': 'అల్పాహార సీరియల్స్',
+  'category.chocolate': 'చాక్లెట్లు',
+  'category.juice': 'జ్యూస్‌లు',
+  'category.softDrinks': 'సాఫ్ట్ డ్రింక్స్',
+  'category.bread': 'బ్రెడ్',
+
+  'dimension.healthScore': 'ఆరోగ్య స్కోర్',
+  'dimension.harmfulCount': 'హానికర పదార్థాలు',
+  'dimension.additiveCount': 'INS సంకలితాలు',
+  'dimension.sugarG': 'చక్కెర',
+  'dimension.saturatedFatG': 'సంతృప్త కొవ్వు',
+  'dimension.sodiumMg': 'సోడియం',
+
+  'history.search': 'గత స్కాన్‌లను వెతకండి',
+  'history.unavailable': 'ఈ బ్రౌజర్‌లో స్కాన్ చరిత్ర అందుబాటులో లేదు.',
+  'history.empty': 'ఇంకా స్కాన్‌లు లేవు. విశ్లేషించిన ఉత్పత్తులు ఇక్కడ కనిపిస్తాయి.',
+  'history.noMatch': 'మీ శోధనకు సరిపోలే స్కాన్‌లు లేవు.',
+  'history.score': 'స్కోర్ {score}',
+  'history.delete': 'స్కాన్ తొలగించండి',
+  'history.deleteFailed': 'స్కాన్‌ను తొలగించలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+
+  'profiles.intro': 'మీరు ఎవరి కోసం కొంటారో ప్రతి ఒక్కరికీ ఒక ప్రొఫైల్ జోడించండి. ప్రతి విశ్లేషణ అన్ని ప్రొఫైల్‌లతో సరిచూడబడుతుంది.',
+  'profiles.namePlaceholder': 'పేరు, ఉదా. అమ్మమ్మ లేదా ఆరవ్',
+  'profiles.delete': 'ప్రొఫైల్ తొలగించండి',
+  'profiles.allergies': 'అలర్జీలు',
+  'profiles.diet': 'ఆహార విధానం',
+  'profiles.diabetic': 'మధుమేహం',
+  'profiles.alsoAvoid': 'వీటిని కూడా నివారించండి',
+  'profiles.removeItem': 'తొలగించు',
+  'profiles.avoidPlaceholder': 'ఉదా. palm oil',
+  'profiles.avoidInvalid': 'పదార్థం పేరు టైప్ చేయండి; అందులో కనీసం ఒక అక్షరం లేదా అంకె ఉండాలి.',
+  'profiles.add': 'ప్రొఫైల్ జోడించండి',
+
+  'diet.any': 'ఏ పరిమితి లేదు',
+  'diet.vegetarian': 'శాకాహారం',
+  'diet.vegan': 'వీగన్',
+  'diet.jain': 'జైన',
+
+  'allergen.peanut': 'వేరుశెనగ',
+  'allergen.treeNuts': 'గింజలు',
+  'allergen.milk': 'పాలు',
+  'allergen.gluten': 'గ్లూటెన్',
+  'allergen.soy': 'సోయా',
+  'allergen.sesame': 'నువ్వులు',
+  'allergen.egg': 'గుడ్డు',
+  'allergen.fish': 'చేప',
+  'allergen.shellfish': 'షెల్‌ఫిష్',
+  'allergen.mustard': 'ఆవాలు',
+
+  'warning.unnamed': 'పేరు లేని ప్రొఫైల్',
+  'warning.clear': 'ఎలాంటి విరుద్ధతలు లేవు',
+  'warning.avoid': 'తగినది కాదు',
+  'warning.caution': 'తినే ముందు తనిఖీ చేయండి',
+
+  'issue.allergen': '{allergen} ఉంది ({term})',
+  'issue.declared': 'ప్యాకెట్‌పై ప్రకటించినది: {term} ({allergen})',
+  'issue.nonVegMark': 'ప్యాకెట్‌పై మాంసాహార (గోధుమ చుక్క) గుర్తు ఉంది',
+  'issue.animal': 'జంతు మూలం: {term}',
+  'issue.maybeAnimal': 'జంతు మూలం కావచ్చు: {term}',
+  'issue.notVegan': 'వీగన్ కాదు: {term}',
+  'issue.notJain': 'జైన ఆహారానికి తగదు: {term}',
+  'issue.addedSugar': 'జోడించిన చక్కెర: {term}',
+  'issue.sugarLevel': '100gకి {amount} g చక్కెర (తక్కువ-చక్కెర పరిమితి {limit} g)',
+  'issue.avoidList': 'మీ నివారణ జాబితాలో: {term}',
+};
@@ -0,0 +1,135 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { AnalysisResult } from '../types';
+import { AnalyzerProvider } from '../services/analyzerProvider';
+import { ANALYZE_STREAM_TYPE, AnalyzeApiError, AnalyzeErrorBody, AnalyzeStreamEvent } from '../services/analyzerApi';
+import { PartialAnalysis } from '../services/partialAnalysis';
+import { RateLimiter } from './rateLimiter';
+import { createInflightDeduper, requestKey } from './inflight';
+import { validateAnalyzeRequest } from './validateRequest';
+import { toApiError } from './errors';
+
+// Label photos are downscaled to 1600px JPEGs in the browser; six of them fit well under this.
+const MAX_BODY_BYTES = 8 * 1024 * 1024;
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const errorBody = (error: AnalyzeApiError): AnalyzeErrorBody => ({
+  error: { code: error.code, message: error.message, retryAfterSeconds: error.retryAfterSeconds },
+});
+
+export const sendError = (res: ServerResponse, error: AnalyzeApiError) => {
+  const body = errorBody(error);
+  const headers: Record<string, string> = error.retryAfterSeconds ? { 'Retry-After': String(error.retryAfterSeconds) } : {};
+  sendJson(res, error.status, body, headers);
+};
+
+const writeEvent = (res: ServerResponse, event: AnalyzeStreamEvent) => {
+  res.write(`${JSON.stringify(event)}\n`);
+};
+
+const wantsStream = (req: IncomingMessage) => (req.headers.accept || '').includes(ANALYZE_STREAM_TYPE);
+
+// An oversized body is rejected without reading the rest of it. The connection is only
+// dropped once the 413 has been written, so the client sees the error rather than a reset.
+const readJsonBody = (req: IncomingMessage, res: ServerResponse) => new Promise<unknown>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      req.off('data', onData);
+      req.pause();
+      res.setHeader('Connection', 'close');
+      res.once('finish', () => req.destroy());
+      reject(new AnalyzeApiError('PAYLOAD_TOO_LARGE', 'Request body is too large. Send fewer or smaller label photos.'));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new AnalyzeApiError('BAD_REQUEST', 'Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Each proxy appends the address it received the request from, so only the entries our
+// own proxies added can be trusted: the client is `trustedProxies` hops from the right.
+// Anything further left was sent by the client and may be made up.
+export const clientIp = (req: IncomingMessage, trustedProxies: number) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = typeof forwarded === 'string' ? forwarded.split(',').map(hop => hop.trim()).filter(Boolean) : [];
+  if (trustedProxies > 0 && hops.length) return hops[Math.max(hops.length - trustedProxies, 0)];
+  return req.socket.remoteAddress || 'unknown';
+};
+
+interface AnalyzeHandlerOptions {
+  analyzer: AnalyzerProvider;
+  limiter: RateLimiter;
+  trustedProxies: number;
+}
+
+// POST /api/analyze: validates the AnalysisRequest body, applies the per-IP limit,
+// joins an identical request already in flight, and replies with AnalysisResult JSON.
+// Clients that accept NDJSON instead get partial events as the reply is parsed, then
+// the result (or an error) as the last line. A client that disconnects stops waiting;
+// Gemini is cancelled once no client is left waiting for that request.
+export const createAnalyzeHandler = ({ analyzer, limiter, trustedProxies }: AnalyzeHandlerOptions) => {
+  const inflight = createInflightDeduper<AnalysisResult, PartialAnalysis>();
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const gone = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) gone.abort();
+    });
+    const stream = wantsStream(req);
+
+    try {
+      if (req.method !== 'POST') {
+        throw new AnalyzeApiError('METHOD_NOT_ALLOWED', 'Use POST to request an analysis.');
+      }
+
+      const decision = limiter.check(clientIp(req, trustedProxies));
+      if (!decision.allowed) {
+        const seconds = Math.ceil(decision.retryAfterMs / 1000);
+        throw new AnalyzeApiError('RATE_LIMITED', `Too many analyses from this address. Try again in ${seconds} s.`, undefined, seconds);
+      }
+
+      const request = validateAnalyzeRequest(await readJsonBody(req, res));
+      const { promise, shared } = inflight.run(
+        requestKey(request),
+        (signal, emit) => analyzer.analyze(request, { signal, onPartial: emit }),
+        { signal: gone.signal, onProgress: stream ? partial => writeEvent(res, { type: 'partial', partial }) : undefined }
+      );
+      const dedupHeaders: Record<string, string> = shared ? { 'X-Deduplicated': 'true' } : {};
+      if (stream) {
+        res.writeHead(200, { 'Content-Type': `${ANALYZE_STREAM_TYPE}; charset=utf-8`, 'Cache-Control': 'no-store', ...dedupHeaders });
+      }
+      const result = await promise;
+      if (gone.signal.aborted) return;
+      if (stream) {
+        writeEvent(res, { type: 'result', result });
+        res.end();
+      } else {
+        sendJson(res, 200, result, dedupHeaders);
+      }
+    } catch (err) {
+      if (gone.signal.aborted) return;
+      const error = toApiError(err);
+      if (error.status >= 500) console.error(`[analyze] ${error.code}:`, err);
+      if (!res.headersSent) {
+        sendError(res, error);
+      } else {
+        writeEvent(res, { type: 'error', ...errorBody(error) });
+        res.end();
+      }
+    }
+  };
+};
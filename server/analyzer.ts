@@ -0,0 +1,15 @@
+import { AnalyzerProvider } from '../services/analyzerProvider';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createFixtureProvider } from '../services/providers/fixtureProvider';
+import { ServerConfig } from './config';
+import { fileFixtureLoader } from './fixtureLoader';
+
+// The analyzer behind both the HTTP server and the batch command: live Gemini, or
+// recorded fixtures read from disk.
+export const createServerAnalyzer = (config: ServerConfig): AnalyzerProvider => {
+  if (config.provider === 'fixture') return createFixtureProvider(fileFixtureLoader(config.fixtureDir), config.model);
+  if (!config.apiKey) {
+    console.warn('[server] GEMINI_API_KEY is not set; analyses will fail until it is.');
+  }
+  return createGeminiProvider(config.model, config.apiKey);
+};
@@ -0,0 +1,133 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { loadEnvFile } from 'node:process';
+import { parseArgs } from 'node:util';
+import { isLanguageCode } from '../i18n/languages';
+import { fixtureSlug } from '../services/providers/fixtureProvider';
+import { loadServerConfig } from './config';
+import { createServerAnalyzer } from './analyzer';
+import { BatchInputError, inputFormat, parseBatchInput } from './batchInput';
+import { BatchOutcome, itemLabel, runBatch } from './batchRunner';
+import { summaryCsv, summaryRow, SummaryRow, summaryTable, summaryTotals } from './batchSummary';
+
+// --- Batch command ---
+// Analyses a CSV or JSON product list without the browser, using the same prompt,
+// parsing and scoring as the app. The analyzer is configured like the server
+// (ANALYZER_PROVIDER, ANALYZER_MODEL, GEMINI_API_KEY, FIXTURE_DIR). Writes one
+// AnalysisResult JSON per product and summary.csv to the output directory.
+//
+// Exit status: 0 when every product was analysed, 1 when some failed, 2 for bad
+// arguments, an unreadable list or an unexpected error.
+
+const USAGE = `Usage: npm run batch -- <products.csv|products.json> [options]
+
+  --out <dir>          Output directory (default: batch-results)
+  --concurrency <n>    Analyses in flight at once (default: 2)
+  --retries <n>        Retries after a rate-limit error (default: 3)
+  --backoff <ms>       First retry delay, doubled each retry (default: 2000)
+  --language <code>    Output language: en, hi, ta, te, bn, kn, mr (default: en)`;
+
+const fail = (message: string): never => {
+  console.error(`[batch] ${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const wholeNumber = (value: string, flag: string, min: number) => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= min ? n : fail(`--${flag} should be a whole number of at least ${min}.`);
+};
+
+const parseCommand = (argv: string[]) => {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', default: 'batch-results' },
+        concurrency: { type: 'string', default: '2' },
+        retries: { type: 'string', default: '3' },
+        backoff: { type: 'string', default: '2000' },
+        language: { type: 'string', default: 'en' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    return fail((err as Error).message);
+  }
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length !== 1) fail('Give exactly one product list.');
+  const language = isLanguageCode(values.language) ? values.language : fail(`Unknown language "${values.language}".`);
+
+  return {
+    input: positionals[0],
+    outDir: values.out,
+    concurrency: wholeNumber(values.concurrency, 'concurrency', 1),
+    retries: wholeNumber(values.retries, 'retries', 0),
+    backoffMs: wholeNumber(values.backoff, 'backoff', 0),
+    language,
+  };
+};
+
+const resultFileName = (outcome: BatchOutcome) =>
+  `${String(outcome.index + 1).padStart(3, '0')}-${fixtureSlug(itemLabel(outcome.item)) || 'product'}.json`;
+
+const logOutcome = (outcome: BatchOutcome, settled: number, total: number) => {
+  const progress = `[batch] ${settled}/${total} ${itemLabel(outcome.item)}`;
+  if (outcome.ok) {
+    console.log(`${progress}: score ${outcome.result.healthScore ?? '–'}`);
+  } else {
+    console.warn(`${progress}: ${outcome.error.code} after ${outcome.attempts} attempt(s): ${outcome.error.message}`);
+  }
+};
+
+const main = async () => {
+  const command = parseCommand(process.argv.slice(2));
+  if (existsSync('.env.local')) loadEnvFile('.env.local');
+
+  let items;
+  try {
+    items = parseBatchInput(await readFile(command.input, 'utf8'), inputFormat(command.input));
+  } catch (err) {
+    if (err instanceof BatchInputError || (err as NodeJS.ErrnoException).code === 'ENOENT') fail((err as Error).message);
+    throw err;
+  }
+
+  const config = loadServerConfig(process.env);
+  const analyzer = createServerAnalyzer(config);
+  await mkdir(command.outDir, { recursive: true });
+  console.log(`[batch] ${items.length} products, ${config.provider} analyzer (${config.model}), ${command.concurrency} at a time`);
+
+  // Results are written as they arrive, so an interrupted run keeps what it finished.
+  const rows: SummaryRow[] = [];
+  const writes: Promise<void>[] = [];
+  await runBatch(analyzer, items, {
+    concurrency: command.concurrency,
+    retries: command.retries,
+    backoffMs: command.backoffMs,
+    language: command.language,
+    onSettled: (outcome, settled) => {
+      logOutcome(outcome, settled, items.length);
+      const file = outcome.ok ? resultFileName(outcome) : '';
+      rows[outcome.index] = summaryRow(outcome, file);
+      if (outcome.ok) writes.push(writeFile(join(command.outDir, file), `${JSON.stringify(outcome.result, null, 2)}\n`));
+    },
+  });
+  await Promise.all(writes);
+
+  await writeFile(join(command.outDir, 'summary.csv'), summaryCsv(rows));
+  const totals = summaryTotals(rows);
+  console.log(`\n${summaryTable(rows)}\n`);
+  console.log(`[batch] ${totals.analysed} analysed, ${totals.parseFailures} parse failures, ${totals.failed} other failures. Results in ${command.outDir}/`);
+  process.exitCode = totals.analysed === rows.length ? 0 : 1;
+};
+
+main().catch((err) => {
+  console.error('[batch]', err);
+  process.exitCode = 2;
+});
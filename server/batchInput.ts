@@ -0,0 +1,113 @@
+// --- Batch input ---
+// A product list for the batch command, as CSV with a header row (a `name` column,
+// plus optional `barcode` and `variant`) or as JSON: an array of names, or of
+// { name, barcode?, variant? } objects. Every entry needs a name or a barcode.
+
+export interface BatchItem {
+  name?: string;
+  barcode?: string;
+  variant?: string;
+}
+
+export type BatchInputFormat = 'csv' | 'json';
+
+export type BatchInputErrorCode = 'INVALID_CSV' | 'INVALID_JSON' | 'MISSING_NAME' | 'EMPTY';
+
+export class BatchInputError extends Error {
+  code: BatchInputErrorCode;
+
+  constructor(code: BatchInputErrorCode, message: string) {
+    super(message);
+    this.name = 'BatchInputError';
+    this.code = code;
+  }
+}
+
+const NAME_COLUMNS = ['name', 'product', 'query'];
+
+export const inputFormat = (path: string): BatchInputFormat => (/\.json$/i.test(path) ? 'json' : 'csv');
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new BatchInputError('INVALID_CSV', 'A quoted CSV field is never closed.');
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+const text = (value: unknown) =>
+  typeof value === 'string' ? value.trim() || undefined : typeof value === 'number' ? String(value) : undefined;
+
+const toItem = (name: unknown, barcode: unknown, variant: unknown, where: string): BatchItem => {
+  const item: BatchItem = { name: text(name), barcode: text(barcode), variant: text(variant) };
+  if (!item.name && !item.barcode) throw new BatchInputError('MISSING_NAME', `${where} has neither a name nor a barcode.`);
+  return item;
+};
+
+const fromCsv = (source: string): BatchItem[] => {
+  const [header, ...rows] = parseCsv(source);
+  const columns = (header || []).map(h => h.trim().toLowerCase());
+  const nameAt = columns.findIndex(c => NAME_COLUMNS.includes(c));
+  const barcodeAt = columns.indexOf('barcode');
+  if (nameAt < 0 && barcodeAt < 0) {
+    throw new BatchInputError('INVALID_CSV', 'The CSV header needs a "name" or "barcode" column.');
+  }
+  const variantAt = columns.indexOf('variant');
+  // Row numbers count the header as row 1 and skip blank lines.
+  return rows.map((row, i) => toItem(row[nameAt], row[barcodeAt], row[variantAt], `Row ${i + 2}`));
+};
+
+const fromJson = (source: string): BatchItem[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (err) {
+    throw new BatchInputError('INVALID_JSON', `The JSON list could not be read: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(data)) throw new BatchInputError('INVALID_JSON', 'The JSON file should hold an array of products.');
+  return data.map((entry, i) => {
+    const where = `Entry ${i + 1}`;
+    if (typeof entry === 'string') return toItem(entry, undefined, undefined, where);
+    if (typeof entry !== 'object' || entry === null) {
+      throw new BatchInputError('INVALID_JSON', `${where} should be a product name or an object.`);
+    }
+    const { name, product, query, barcode, variant } = entry as Record<string, unknown>;
+    return toItem(name ?? product ?? query, barcode, variant, where);
+  });
+};
+
+export const parseBatchInput = (source: string, format: BatchInputFormat): BatchItem[] => {
+  const body = source.replace(/^\uFEFF/, ''); // Excel writes a byte-order mark
+  const items = format === 'json' ? fromJson(body) : fromCsv(body);
+  if (items.length === 0) throw new BatchInputError('EMPTY', 'The product list is empty.');
+  return items;
+};
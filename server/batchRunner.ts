@@ -0,0 +1,75 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { AnalysisResult, LanguageCode } from '../types';
+import { AnalyzerProvider } from '../services/analyzerProvider';
+import { AnalyzeApiError, AnalyzeErrorCode } from '../services/analyzerApi';
+import { prepareAnalysisRequest } from '../services/analysisRequest';
+import { BatchItem } from './batchInput';
+import { toApiError } from './errors';
+
+// --- Batch runs ---
+// Analyses a product list with at most `concurrency` calls in flight. A rate-limited
+// call is retried with exponential backoff, never sooner than the Retry-After hint;
+// any other failure is recorded and the batch moves on.
+
+export interface BatchOptions {
+  concurrency: number;
+  retries: number; // further attempts after a rate-limited one
+  backoffMs: number; // first retry delay, doubled on each retry
+  language?: LanguageCode;
+  onSettled?: (outcome: BatchOutcome, settled: number) => void;
+}
+
+export type BatchOutcome = { item: BatchItem; index: number; attempts: number } & (
+  | { ok: true; result: AnalysisResult }
+  | { ok: false; error: AnalyzeApiError }
+);
+
+const RETRYABLE: AnalyzeErrorCode[] = ['RATE_LIMITED', 'QUOTA_EXHAUSTED'];
+
+// Up to 20% jitter, so workers that were limited together do not retry together.
+const retryDelay = (error: AnalyzeApiError, retry: number, backoffMs: number) =>
+  Math.max(backoffMs * 2 ** retry, (error.retryAfterSeconds ?? 0) * 1000) * (1 + Math.random() * 0.2);
+
+export const itemLabel = (item: BatchItem) =>
+  [item.name || item.barcode, item.variant].filter(Boolean).join(', ');
+
+const analyzeItem = async (
+  analyzer: AnalyzerProvider,
+  item: BatchItem,
+  index: number,
+  { retries, backoffMs, language }: BatchOptions
+): Promise<BatchOutcome> => {
+  const prepared = prepareAnalysisRequest({ query: item.name, variant: item.variant, barcode: item.barcode, language });
+  if (!prepared?.valid) {
+    const reason = prepared ? prepared.reason : 'Nothing to analyse.';
+    return { item, index, attempts: 0, ok: false, error: new AnalyzeApiError('BAD_REQUEST', reason) };
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { item, index, attempts: attempt, ok: true, result: await analyzer.analyze(prepared.request) };
+    } catch (err) {
+      const error = toApiError(err);
+      if (!RETRYABLE.includes(error.code) || attempt > retries) return { item, index, attempts: attempt, ok: false, error };
+      await sleep(retryDelay(error, attempt - 1, backoffMs));
+    }
+  }
+};
+
+// Outcomes come back in input order, whatever order the calls finish in.
+export const runBatch = async (analyzer: AnalyzerProvider, items: BatchItem[], options: BatchOptions): Promise<BatchOutcome[]> => {
+  const outcomes: BatchOutcome[] = new Array(items.length);
+  let next = 0;
+  let settled = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      outcomes[index] = await analyzeItem(analyzer, items[index], index, options);
+      options.onSettled?.(outcomes[index], ++settled);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, items.length) }, worker));
+  return outcomes;
+};
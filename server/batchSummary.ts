@@ -0,0 +1,80 @@
+import { BatchOutcome, itemLabel } from './batchRunner';
+
+// --- Batch summary ---
+// One row per product for summary.csv and the table printed at the end of a run.
+
+export type SummaryStatus = 'ok' | 'parse_failed' | 'failed';
+
+export interface SummaryRow {
+  index: number; // 1-based, matching the result file prefix
+  product: string; // as given in the input list
+  barcode: string;
+  status: SummaryStatus;
+  score: number | null;
+  harmful: number | null; // harmful-ingredient count
+  attempts: number;
+  file: string; // result file, empty when the product failed
+  error: string; // "CODE: message" for failures
+}
+
+export const summaryRow = (outcome: BatchOutcome, file = ''): SummaryRow => {
+  const base = {
+    index: outcome.index + 1,
+    product: itemLabel(outcome.item),
+    barcode: outcome.item.barcode || '',
+    attempts: outcome.attempts,
+  };
+  if (!outcome.ok) {
+    return {
+      ...base,
+      status: outcome.error.code === 'PARSE_FAILED' ? 'parse_failed' : 'failed',
+      score: null,
+      harmful: null,
+      file: '',
+      error: `${outcome.error.code}: ${outcome.error.message}`,
+    };
+  }
+  const { result } = outcome;
+  return {
+    ...base,
+    status: 'ok',
+    score: result.healthScore ?? null,
+    harmful: result.ingredients.filter(i => i.status === 'harmful').length,
+    file,
+    error: '',
+  };
+};
+
+export const summaryTotals = (rows: SummaryRow[]) => ({
+  analysed: rows.filter(r => r.status === 'ok').length,
+  parseFailures: rows.filter(r => r.status === 'parse_failed').length,
+  failed: rows.filter(r => r.status === 'failed').length,
+});
+
+const COLUMNS: (keyof SummaryRow)[] = ['index', 'product', 'barcode', 'status', 'score', 'harmful', 'attempts', 'file', 'error'];
+
+const csvField = (value: unknown) => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const summaryCsv = (rows: SummaryRow[]) =>
+  `${[COLUMNS, ...rows.map(row => COLUMNS.map(c => row[c]))].map(r => r.map(csvField).join(',')).join('\n')}\n`;
+
+// A fixed-width table for the terminal; long product names are cut to keep rows on one line.
+const MAX_PRODUCT_WIDTH = 40;
+
+export const summaryTable = (rows: SummaryRow[]) => {
+  const cells = [
+    ['#', 'Product', 'Score', 'Harmful', 'Status'],
+    ...rows.map(r => [
+      String(r.index),
+      r.product.length > MAX_PRODUCT_WIDTH ? `${r.product.slice(0, MAX_PRODUCT_WIDTH - 1)}…` : r.product,
+      r.score === null ? '–' : String(r.score),
+      r.harmful === null ? '–' : String(r.harmful),
+      r.status === 'ok' ? 'ok' : r.error.split(':')[0],
+    ]),
+  ];
+  const widths = cells[0].map((_, col) => Math.max(...cells.map(row => row[col].length)));
+  return cells.map(row => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd()).join('\n');
+};
@@ -0,0 +1,44 @@
+import { DEFAULT_MODEL } from '../config';
+
+// --- Server configuration ---
+// Read from the environment when the server starts (not at build time), so the API
+// key never ends up in a bundle.
+
+export interface ServerConfig {
+  port: number;
+  provider: 'gemini' | 'fixture';
+  model: string;
+  apiKey?: string;
+  fixtureDir: string;
+  staticDir: string; // built client served alongside the API; skipped if missing
+  rateLimit: { limit: number; windowMs: number };
+  trustedProxies: number; // proxies in front of the server; 0 ignores X-Forwarded-For
+}
+
+export const DEFAULT_PORT = 8787;
+
+const positiveNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && !isNaN(n) && n > 0 ? n : fallback;
+};
+
+// TRUST_PROXY is a hop count; "true" means a single proxy.
+const proxyHops = (value: string | undefined) => {
+  if (value === 'true') return 1;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+};
+
+export const loadServerConfig = (env: NodeJS.ProcessEnv): ServerConfig => ({
+  port: positiveNumber(env.PORT, DEFAULT_PORT),
+  provider: env.ANALYZER_PROVIDER === 'fixture' ? 'fixture' : 'gemini',
+  model: env.ANALYZER_MODEL || DEFAULT_MODEL,
+  apiKey: env.GEMINI_API_KEY || env.API_KEY,
+  fixtureDir: env.FIXTURE_DIR || 'public/fixtures',
+  staticDir: env.STATIC_DIR || 'dist',
+  rateLimit: {
+    limit: positiveNumber(env.RATE_LIMIT_PER_MINUTE, 10),
+    windowMs: 60_000,
+  },
+  trustedProxies: proxyHops(env.TRUST_PROXY),
+});
@@ -0,0 +1,27 @@
+import { AnalyzeApiError } from '../services/analyzerApi';
+import { AnalysisParseError } from '../services/analysisParser';
+
+// Gemini does not say how long to back off; a minute matches its per-minute quotas.
+const QUOTA_RETRY_SECONDS = 60;
+
+const isQuotaError = (err: unknown) => {
+  if (typeof err !== 'object' || err === null) return false;
+  if ('status' in err && err.status === 429) return true;
+  return err instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(err.message);
+};
+
+// Maps anything thrown while analyzing onto a coded API error. This is the only place
+// that inspects Gemini's error text; the browser only ever sees `code`.
+export const toApiError = (err: unknown): AnalyzeApiError => {
+  if (err instanceof AnalyzeApiError) return err;
+  if (err instanceof AnalysisParseError) {
+    return new AnalyzeApiError('PARSE_FAILED', `The analyzer's reply could not be read: ${err.message}`);
+  }
+  if (isQuotaError(err)) {
+    return new AnalyzeApiError('QUOTA_EXHAUSTED', 'The Gemini API quota is exhausted. Please wait a moment and try again.', undefined, QUOTA_RETRY_SECONDS);
+  }
+  if (err instanceof Error) {
+    return new AnalyzeApiError('UPSTREAM_ERROR', err.message || 'The analyzer failed.');
+  }
+  return new AnalyzeApiError('INTERNAL', 'Something went wrong while analyzing the product.');
+};
@@ -0,0 +1,13 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { FixtureLoader } from '../services/providers/fixtureProvider';
+
+// Reads recorded responses from disk, for running the server without an API key.
+export const fileFixtureLoader = (dir: string): FixtureLoader => async (slug) => {
+  try {
+    return JSON.parse(await readFile(join(dir, `${slug}.json`), 'utf8'));
+  } catch (err) {
+    if (err instanceof Error && (err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+};
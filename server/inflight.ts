@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+import { AnalysisRequest } from '../services/analyzerProvider';
+import { normaliseQuery } from '../services/historyStore';
+
+// --- In-flight deduplication ---
+// Identical requests that arrive while the first is still running share its result
+// instead of starting another Gemini call. Every caller sees the run's progress
+// (late joiners get the latest update at once), and the run is aborted only when
+// all of its callers have gone away.
+
+export interface InflightRun<T> {
+  promise: Promise<T>;
+  shared: boolean; // true when this caller joined an existing run
+}
+
+export interface InflightCaller<P> {
+  signal?: AbortSignal; // this caller no longer needs the result
+  onProgress?: (progress: P) => void;
+}
+
+export type InflightTask<T, P> = (signal: AbortSignal, emit: (progress: P) => void) => Promise<T>;
+
+export interface InflightDeduper<T, P> {
+  run(key: string, task: InflightTask<T, P>, caller?: InflightCaller<P>): InflightRun<T>;
+  readonly size: number;
+}
+
+interface Entry<T, P> {
+  promise: Promise<T>;
+  controller: AbortController;
+  listeners: Set<(progress: P) => void>;
+  callers: number;
+  latest?: P;
+}
+
+export const createInflightDeduper = <T, P = never>(): InflightDeduper<T, P> => {
+  const pending = new Map<string, Entry<T, P>>();
+
+  // An abandoned run is dropped at once so a later identical request starts afresh.
+  const forget = (key: string, entry: Entry<T, P>) => {
+    if (pending.get(key) === entry) pending.delete(key);
+  };
+
+  const join = (key: string, entry: Entry<T, P>, { signal, onProgress }: InflightCaller<P>) => {
+    entry.callers += 1;
+    if (onProgress) {
+      entry.listeners.add(onProgress);
+      // Replayed after run() returns, so the caller can finish setting up first.
+      const latest = entry.latest;
+      if (latest !== undefined) {
+        queueMicrotask(() => {
+          if (entry.latest === latest && entry.listeners.has(onProgress)) onProgress(latest);
+        });
+      }
+    }
+    const leave = () => {
+      if (onProgress) entry.listeners.delete(onProgress);
+      entry.callers -= 1;
+      if (entry.callers > 0) return;
+      entry.controller.abort();
+      forget(key, entry);
+    };
+    if (signal?.aborted) leave();
+    else signal?.addEventListener('abort', leave, { once: true });
+  };
+
+  return {
+    run(key, task, caller = {}) {
+      const existing = pending.get(key);
+      if (existing) {
+        join(key, existing, caller);
+        return { promise: existing.promise, shared: true };
+      }
+
+      const controller = new AbortController();
+      const entry: Entry<T, P> = { promise: Promise.resolve() as Promise<T>, controller, listeners: new Set(), callers: 0 };
+      const emit = (progress: P) => {
+        entry.latest = progress;
+        entry.listeners.forEach(listener => listener(progress));
+      };
+      entry.promise = task(controller.signal, emit).finally(() => forget(key, entry));
+      pending.set(key, entry);
+      join(key, entry, caller);
+      return { promise: entry.promise, shared: false };
+    },
+    get size() {
+      return pending.size;
+    },
+  };
+};
+
+// Two requests are identical when they would send Gemini the same prompt and photos.
+export const requestKey = (request: AnalysisRequest) =>
+  createHash('sha256')
+    .update(JSON.stringify([
+      normaliseQuery(request.query),
+      request.barcode || '',
+      request.language || 'en',
+      request.product || null,
+      (request.images || []).map(img => [img.panel, img.mimeType, img.data]),
+    ]))
+    .digest('hex');
@@ -0,0 +1,54 @@
+import { createServer } from 'node:http';
+import { existsSync } from 'node:fs';
+import { loadEnvFile } from 'node:process';
+import { ANALYZE_ENDPOINT, AnalyzeApiError } from '../services/analyzerApi';
+import { loadServerConfig } from './config';
+import { createServerAnalyzer } from './analyzer';
+import { createRateLimiter } from './rateLimiter';
+import { createAnalyzeHandler, sendError } from './analyzeHandler';
+import { createStaticHandler } from './staticFiles';
+import { toApiError } from './errors';
+
+// --- Analysis server ---
+// Holds the Gemini key and runs analyses for the browser through POST /api/analyze.
+
+if (existsSync('.env.local')) loadEnvFile('.env.local');
+
+const config = loadServerConfig(process.env);
+const analyze = createAnalyzeHandler({
+  analyzer: createServerAnalyzer(config),
+  limiter: createRateLimiter(config.rateLimit),
+  trustedProxies: config.trustedProxies,
+});
+const serveStatic = createStaticHandler(config.staticDir);
+
+const server = createServer((req, res) => {
+  // A raw request line such as "GET http://[ HTTP/1.1" is not a URL at all.
+  let pathname: string;
+  try {
+    pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  } catch {
+    sendError(res, new AnalyzeApiError('BAD_REQUEST', 'The request URL could not be read.'));
+    return;
+  }
+
+  if (pathname === ANALYZE_ENDPOINT) {
+    // The handler answers its own errors; this only catches what slips past it.
+    analyze(req, res).catch((err) => {
+      console.error(err);
+      if (!res.headersSent) sendError(res, toApiError(err));
+      else res.end();
+    });
+  } else if (serveStatic && (req.method === 'GET' || req.method === 'HEAD') && !pathname.startsWith('/api/')) {
+    serveStatic(req, res).catch((err) => {
+      console.error(err);
+      if (!res.headersSent) res.writeHead(500).end();
+    });
+  } else {
+    sendError(res, new AnalyzeApiError('NOT_FOUND', `No route for ${req.method} ${pathname}.`));
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`[server] ${config.provider} analyzer (${config.model}) listening on http://localhost:${config.port}${ANALYZE_ENDPOINT}`);
+});
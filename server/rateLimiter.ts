@@ -0,0 +1,45 @@
+// --- Per-client rate limiting ---
+// Sliding window: each key may make `limit` requests in any `windowMs` span. State is
+// in memory, which is enough for the single-process server.
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateDecision {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  check(key: string, now?: number): RateDecision;
+}
+
+// Idle keys are dropped once this many are tracked, so a scan of many IPs cannot grow the map forever.
+const SWEEP_THRESHOLD = 10_000;
+
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const sweep = (now: number) => {
+    for (const [key, times] of hits) {
+      if (times.every(t => now - t >= windowMs)) hits.delete(key);
+    }
+  };
+
+  return {
+    check(key, now = Date.now()) {
+      if (hits.size > SWEEP_THRESHOLD) sweep(now);
+
+      const recent = (hits.get(key) || []).filter(t => now - t < windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
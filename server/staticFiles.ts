@@ -0,0 +1,43 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+};
+
+// Serves the built client (vite build) so one process runs the whole app. Unknown
+// paths fall back to index.html. Returns null when there is no build to serve.
+export const createStaticHandler = (dir: string) => {
+  const root = resolve(dir);
+  if (!existsSync(join(root, 'index.html'))) return null;
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400).end(); // malformed percent-encoding
+      return;
+    }
+    let file = resolve(join(root, pathname));
+    if (file !== root && !file.startsWith(root + sep)) {
+      res.writeHead(403).end();
+      return;
+    }
+    const found = await stat(file).then(s => s.isFile()).catch(() => false);
+    if (!found) file = join(root, 'index.html');
+
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] || 'application/octet-stream' });
+    res.end(await readFile(file));
+  };
+};
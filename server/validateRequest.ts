@@ -0,0 +1,84 @@
+import { LabelImage, LabelPanel } from '../types';
+import { CatalogProduct } from '../data/productCatalog';
+import { AnalysisRequest } from '../services/analyzerProvider';
+import { AnalyzeApiError } from '../services/analyzerApi';
+import { validateBarcode } from '../services/barcode';
+import { isLanguageCode } from '../i18n/languages';
+
+// --- Request body validation ---
+// The body comes from an untrusted browser, so it is rebuilt field by field rather
+// than passed through to the prompt builder.
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_IMAGES = 6;
+const LABEL_PANELS: LabelPanel[] = ['ingredients', 'nutrition'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const badRequest = (message: string) => new AnalyzeApiError('BAD_REQUEST', message);
+
+const optionalString = (raw: Record<string, unknown>, key: string, path: string) => {
+  const value = raw[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw badRequest(`"${path}" should be a string.`);
+  return value.trim() || undefined;
+};
+
+const validateImage = (raw: unknown, index: number): LabelImage => {
+  const path = `images[${index}]`;
+  if (!isRecord(raw)) throw badRequest(`"${path}" should be an object.`);
+  const { id, panel, mimeType, data } = raw;
+  if (typeof id !== 'string' || typeof data !== 'string' || !data) throw badRequest(`"${path}" needs an id and base64 data.`);
+  if (!LABEL_PANELS.includes(panel as LabelPanel)) throw badRequest(`"${path}.panel" should be one of ${LABEL_PANELS.join(', ')}.`);
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('image/')) throw badRequest(`"${path}.mimeType" should be an image type.`);
+  return { id, panel: panel as LabelPanel, mimeType, data };
+};
+
+const validateProduct = (raw: unknown, ean13: string | undefined): CatalogProduct | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isRecord(raw)) throw badRequest('"product" should be an object.');
+  const brand = optionalString(raw, 'brand', 'product.brand');
+  const name = optionalString(raw, 'name', 'product.name');
+  if (!brand || !name) throw badRequest('"product" needs a brand and a name.');
+  if (!ean13 || raw.barcode !== ean13) throw badRequest('"product.barcode" should match "barcode".');
+  return {
+    barcode: ean13,
+    brand,
+    name,
+    variant: optionalString(raw, 'variant', 'product.variant'),
+    packSize: optionalString(raw, 'packSize', 'product.packSize'),
+  };
+};
+
+export const validateAnalyzeRequest = (body: unknown): AnalysisRequest => {
+  if (!isRecord(body)) throw badRequest('Request body should be a JSON object.');
+
+  const query = optionalString(body, 'query', 'query') || '';
+  if (query.length > MAX_QUERY_LENGTH) throw badRequest(`"query" should be at most ${MAX_QUERY_LENGTH} characters.`);
+
+  if (body.images !== undefined && !Array.isArray(body.images)) throw badRequest('"images" should be an array.');
+  const rawImages: unknown[] = body.images || [];
+  if (rawImages.length > MAX_IMAGES) throw badRequest(`At most ${MAX_IMAGES} label photos can be sent.`);
+  const images = rawImages.map(validateImage);
+
+  const rawBarcode = optionalString(body, 'barcode', 'barcode');
+  const check = rawBarcode ? validateBarcode(rawBarcode) : null;
+  if (check && !check.valid) throw badRequest(check.reason);
+  const barcode = check?.ean13;
+
+  if (body.language !== undefined && !isLanguageCode(body.language)) throw badRequest('"language" is not a supported language code.');
+  const language = isLanguageCode(body.language) ? body.language : undefined;
+
+  if (!query && images.length === 0 && !barcode) {
+    throw badRequest('Send a product name, a barcode or at least one label photo.');
+  }
+
+  return {
+    query,
+    images,
+    barcode,
+    product: validateProduct(body.product, barcode),
+    language,
+  };
+};
@@ -0,0 +1,84 @@
+import { AdditiveHazard, AdditiveMatch, Ingredient, IngredientStatus } from '../types';
+import { ADDITIVES, AdditiveEntry, findAdditiveByIns } from '../data/additives';
+
+const HAZARD_RANK: Record<AdditiveHazard, number> = { none: 0, low: 1, moderate: 2, high: 3 };
+const STATUS_RANK: Record<IngredientStatus, number> = { healthy: 0, neutral: 1, harmful: 2 };
+
+// Statuses the database accepts for each hazard rating. The first entry is the
+// database's own verdict, used when the model's status falls outside the list.
+const ALLOWED_STATUSES: Record<AdditiveHazard, IngredientStatus[]> = {
+  none: ['healthy', 'neutral'],
+  low: ['neutral', 'healthy'],
+  moderate: ['neutral', 'harmful'],
+  high: ['harmful'],
+};
+
+const normalizeName = (text: string) => ` ${text.toLowerCase().replace(/[^a-z0-9']+/g, ' ').trim()} `;
+
+// "Vitamin E 300 mg" is a vitamin amount, not E300.
+const INS_CODE = /\b(?:INS|(?<!\bvit(?:amin|\.)?\s*)E)\s*-?\s*(\d{3,4}[a-z]?)\b/gi;
+const PAREN_GROUP = /\(((?:[^()]|\([ivx]+\))*)\)/gi;
+const BARE_CODE = /^(?:INS|E)?\s*-?\s*(\d{3,4}[a-z]?)$/i;
+
+// Pulls INS/E numbers out of label text: "INS 621", "E-110", or the bare lists
+// Indian labels print after a class name, e.g. "Thickeners (508, 412)".
+export const extractInsCodes = (text: string): string[] => {
+  const codes = new Set<string>();
+  for (const match of text.matchAll(INS_CODE)) codes.add(match[1].toLowerCase());
+
+  for (const group of text.matchAll(PAREN_GROUP)) {
+    const tokens = group[1].replace(/\([ivx]+\)/gi, '').split(/[,&/;]|\band\b/i).map(t => t.trim()).filter(Boolean);
+    const bare = tokens.map(t => t.match(BARE_CODE));
+    if (bare.length > 0 && bare.every(Boolean)) bare.forEach(m => codes.add(m![1].toLowerCase()));
+  }
+
+  return [...codes];
+};
+
+export const matchAdditives = (ingredientName: string): AdditiveEntry[] => {
+  const matches = new Map<string, AdditiveEntry>();
+
+  for (const code of extractInsCodes(ingredientName)) {
+    const entry = findAdditiveByIns(code);
+    if (entry) matches.set(entry.id, entry);
+  }
+
+  const name = normalizeName(ingredientName);
+  for (const entry of ADDITIVES) {
+    if (matches.has(entry.id)) continue;
+    if (entry.aliases.some(alias => name.includes(normalizeName(alias)))) matches.set(entry.id, entry);
+  }
+
+  return [...matches.values()];
+};
+
+const toMatch = ({ id, ins, name, category, limitNote, hazard }: AdditiveEntry): AdditiveMatch =>
+  ({ id, ins, name, category, limitNote, hazard });
+
+// Cross-checks one parsed ingredient against the additive database. When the model's
+// status is outside what the database allows, a stricter database verdict overrides
+// it; a more lenient one is only flagged, since a row like "Sugar, Citric Acid (330)"
+// should not be cleared on the strength of its additive alone.
+export const crossCheckIngredient = (ingredient: Ingredient): Ingredient => {
+  const entries = matchAdditives(ingredient.name);
+  if (entries.length === 0) {
+    return { ...ingredient, verdict: { source: 'model', modelStatus: ingredient.status, conflict: false } };
+  }
+
+  const worst = entries.reduce((a, b) => (HAZARD_RANK[b.hazard] > HAZARD_RANK[a.hazard] ? b : a));
+  const allowed = ALLOWED_STATUSES[worst.hazard];
+  const modelStatus = ingredient.status;
+  const databaseStatus = allowed.includes(modelStatus) ? modelStatus : allowed[0];
+  const conflict = databaseStatus !== modelStatus;
+  const override = conflict && STATUS_RANK[databaseStatus] > STATUS_RANK[modelStatus];
+
+  return {
+    ...ingredient,
+    status: override ? databaseStatus : modelStatus,
+    additives: entries.map(toMatch),
+    verdict: { source: override ? 'database' : 'model', modelStatus, databaseStatus, conflict },
+  };
+};
+
+export const crossCheckIngredients = (ingredients: Ingredient[]): Ingredient[] =>
+  ingredients.map(crossCheckIngredient);
@@ -0,0 +1,121 @@
+import { AnalysisResult, NutrientKey } from '../types';
+import { PRODUCT_CATEGORIES, ProductCategory } from '../data/productCategories';
+import { ingredientKey } from './comparison';
+import { ScanRecord } from './historyStore';
+
+// --- Healthier alternatives ---
+// Finds the scanned product's category, picks candidate products from
+// data/productCategories.ts and, once they are analysed, ranks them by health score
+// with the differences that matter most against the scanned product.
+
+export const MIN_ALTERNATIVES = 3;
+export const MAX_ALTERNATIVES = 5;
+
+// Results at or above this score are already good enough not to prompt for alternatives.
+export const ALTERNATIVES_BELOW_SCORE = 70;
+
+const MIN_NUTRIENT_CHANGE_PERCENT = 10;
+const MAX_DIFFERENCES = 4;
+
+export type Difference =
+  | { kind: 'less' | 'more'; nutrient: NutrientKey; percent: number; better: boolean }
+  | { kind: 'without' | 'adds'; label: string; better: boolean }
+  | { kind: 'fewerHarmful' | 'moreHarmful'; count: number; better: boolean };
+
+export interface RankedAlternative {
+  record: ScanRecord;
+  scoreDelta: number | null; // against the scanned product; null when either is unscored
+  differences: Difference[];
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const findCategory = (result: AnalysisResult): ProductCategory | undefined => {
+  const name = result.productName.toLowerCase();
+  return PRODUCT_CATEGORIES.find(c => c.brands.some(p => p.test(name)))
+    || PRODUCT_CATEGORIES.find(c => c.patterns.some(p => p.test(name)));
+};
+
+export const wantsAlternatives = (result: AnalysisResult) =>
+  result.healthScore === undefined
+    ? result.ingredients.some(i => i.status === 'harmful')
+    : result.healthScore < ALTERNATIVES_BELOW_SCORE;
+
+// Candidate queries for the category, without the product that was just scanned.
+export const candidateQueries = (category: ProductCategory, result: AnalysisResult): string[] => {
+  const scanned = normaliseName(result.productName);
+  return category.alternatives
+    .filter(query => {
+      const candidate = normaliseName(query);
+      return !scanned.includes(candidate) && !candidate.includes(scanned);
+    })
+    .slice(0, MAX_ALTERNATIVES);
+};
+
+// Nutrients worth calling out, and which way is the healthier one.
+const NUTRIENT_DIRECTIONS: { nutrient: NutrientKey; lowerIsBetter: boolean }[] = [
+  { nutrient: 'sugarG', lowerIsBetter: true },
+  { nutrient: 'saturatedFatG', lowerIsBetter: true },
+  { nutrient: 'sodiumMg', lowerIsBetter: true },
+  { nutrient: 'fibreG', lowerIsBetter: false },
+  { nutrient: 'proteinG', lowerIsBetter: false },
+];
+
+// "Palm oil" reads better mid-sentence as "palm oil"; names like "Sunset Yellow (INS 110)" keep their case.
+const inlineLabel = (label: string) => (/^[A-Z][a-z ]+$/.test(label) ? label.toLowerCase() : label);
+
+const nutrientDifferences = (base: AnalysisResult, alt: AnalysisResult): Difference[] =>
+  NUTRIENT_DIRECTIONS.flatMap(({ nutrient, lowerIsBetter }) => {
+    const before = base.nutrition?.[nutrient];
+    const after = alt.nutrition?.[nutrient];
+    if (before == null || after == null || before === 0) return [];
+    const change = Math.round(((after - before) / before) * 100);
+    if (Math.abs(change) < MIN_NUTRIENT_CHANGE_PERCENT) return [];
+    const kind = change < 0 ? 'less' : 'more';
+    return [{ kind, nutrient, percent: Math.abs(change), better: (kind === 'less') === lowerIsBetter }];
+  });
+
+const harmfulKeys = (result: AnalysisResult) =>
+  new Map(result.ingredients.filter(i => i.status === 'harmful').map(i => {
+    const { key, label } = ingredientKey(i);
+    return [key, label] as const;
+  }));
+
+const ingredientDifferences = (base: AnalysisResult, alt: AnalysisResult): Difference[] => {
+  const altKeys = new Set(alt.ingredients.map(i => ingredientKey(i).key));
+  const baseKeys = new Set(base.ingredients.map(i => ingredientKey(i).key));
+  const dropped = [...harmfulKeys(base)].filter(([key]) => !altKeys.has(key));
+  const added = [...harmfulKeys(alt)].filter(([key]) => !baseKeys.has(key));
+  return [
+    ...dropped.map(([, label]): Difference => ({ kind: 'without', label: inlineLabel(label), better: true })),
+    ...added.map(([, label]): Difference => ({ kind: 'adds', label: inlineLabel(label), better: false })),
+  ];
+};
+
+const harmfulCountDifference = (base: AnalysisResult, alt: AnalysisResult): Difference[] => {
+  const count = (r: AnalysisResult) => r.ingredients.filter(i => i.status === 'harmful').length;
+  const delta = count(alt) - count(base);
+  if (delta === 0) return [];
+  return [delta < 0
+    ? { kind: 'fewerHarmful', count: -delta, better: true }
+    : { kind: 'moreHarmful', count: delta, better: false }];
+};
+
+// Improvements first, then the trade-offs, capped so each card stays short.
+export const describeDifferences = (base: AnalysisResult, alt: AnalysisResult): Difference[] => {
+  const all = [...ingredientDifferences(base, alt), ...nutrientDifferences(base, alt), ...harmfulCountDifference(base, alt)];
+  return [...all.filter(d => d.better), ...all.filter(d => !d.better)].slice(0, MAX_DIFFERENCES);
+};
+
+// Highest score first; alternatives without a score go last, in suggestion order.
+export const rankAlternatives = (base: AnalysisResult, records: ScanRecord[]): RankedAlternative[] =>
+  records
+    .map(record => {
+      const score = record.result.healthScore;
+      return {
+        record,
+        scoreDelta: score !== undefined && base.healthScore !== undefined ? score - base.healthScore : null,
+        differences: describeDifferences(base, record.result),
+      };
+    })
+    .sort((a, b) => (b.record.result.healthScore ?? -1) - (a.record.result.healthScore ?? -1));
@@ -0,0 +1,276 @@
+import {
+  AnalysisResult,
+  Ingredient,
+  IngredientOrigin,
+  IngredientStatus,
+  INGREDIENT_ORIGINS,
+  INGREDIENT_STATUSES,
+  NutrientKey,
+  NutritionPer100g,
+  VegMark,
+  VEG_MARKS,
+} from '../types';
+
+export type ParsedAnalysis = Omit<AnalysisResult, 'sources'>;
+
+export type AnalysisParseErrorCode =
+  | 'EMPTY_RESPONSE'
+  | 'INVALID_JSON'
+  | 'INVALID_TYPE'
+  | 'MISSING_FIELD'
+  | 'INVALID_STATUS'
+  | 'OUT_OF_RANGE'
+  | 'EMPTY_INGREDIENTS';
+
+// Raised whenever the analyzer's reply does not match the declared AnalysisResult shape.
+// `field` is a dotted path into the reply, e.g. "ingredients[2].status".
+export class AnalysisParseError extends Error {
+  code: AnalysisParseErrorCode;
+  field?: string;
+
+  constructor(code: AnalysisParseErrorCode, message: string, field?: string) {
+    super(message);
+    this.name = 'AnalysisParseError';
+    this.code = code;
+    this.field = field;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isNoneNotice = (notice: string) => !notice || /^none\b/i.test(notice.trim());
+
+// --- JSON (schema) parsing ---
+const requireString = (obj: Record<string, unknown>, key: string, path: string): string => {
+  const value = obj[key];
+  if (value === undefined || value === null) {
+    throw new AnalysisParseError('MISSING_FIELD', `Analyzer response is missing "${path}".`, path);
+  }
+  if (typeof value !== 'string') {
+    throw new AnalysisParseError('INVALID_TYPE', `"${path}" should be text but was ${typeof value}.`, path);
+  }
+  if (!value.trim()) {
+    throw new AnalysisParseError('MISSING_FIELD', `Analyzer response has an empty "${path}".`, path);
+  }
+  return value.trim();
+};
+
+export const validateIngredient = (raw: unknown, index: number): Ingredient => {
+  const path = `ingredients[${index}]`;
+  if (!isRecord(raw)) {
+    throw new AnalysisParseError('INVALID_TYPE', `"${path}" should be an object.`, path);
+  }
+
+  const name = requireString(raw, 'name', `${path}.name`);
+  const status = requireString(raw, 'status', `${path}.status`).toLowerCase();
+  if (!INGREDIENT_STATUSES.includes(status as IngredientStatus)) {
+    throw new AnalysisParseError(
+      'INVALID_STATUS',
+      `Ingredient "${name}" has invalid status "${status}" (expected ${INGREDIENT_STATUSES.join(', ')}).`,
+      `${path}.status`
+    );
+  }
+
+  const quantity = typeof raw.quantity === 'string' && raw.quantity.trim() ? raw.quantity.trim() : "N/A";
+  const description = typeof raw.description === 'string' && raw.description.trim()
+    ? raw.description.trim()
+    : "Major component found in product label.";
+
+  const rawOrigin = typeof raw.origin === 'string' ? raw.origin.toLowerCase() : undefined;
+  if (rawOrigin !== undefined && !INGREDIENT_ORIGINS.includes(rawOrigin as IngredientOrigin)) {
+    throw new AnalysisParseError(
+      'INVALID_TYPE',
+      `Ingredient "${name}" has invalid origin "${rawOrigin}" (expected ${INGREDIENT_ORIGINS.join(', ')}).`,
+      `${path}.origin`
+    );
+  }
+  const origin = rawOrigin as IngredientOrigin | undefined;
+
+  const localName = typeof raw.localName === 'string' && raw.localName.trim() && raw.localName.trim() !== name
+    ? raw.localName.trim()
+    : undefined;
+
+  return { name, localName, quantity, status: status as IngredientStatus, description, origin };
+};
+
+const NUTRIENT_KEYS: NutrientKey[] = ['energyKcal', 'sugarG', 'saturatedFatG', 'sodiumMg', 'fibreG', 'proteinG', 'fruitVegPercent'];
+
+const validateNutrition = (raw: unknown): NutritionPer100g => {
+  if (!isRecord(raw)) {
+    throw new AnalysisParseError('INVALID_TYPE', '"nutrition" should be an object.', 'nutrition');
+  }
+
+  const nutrition = {} as NutritionPer100g;
+  for (const key of NUTRIENT_KEYS) {
+    const path = `nutrition.${key}`;
+    const value = raw[key];
+    if (value === undefined || value === null || value === '') {
+      nutrition[key] = null;
+      continue;
+    }
+    const num = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof num !== 'number' || isNaN(num)) {
+      throw new AnalysisParseError('INVALID_TYPE', `"${path}" should be a number.`, path);
+    }
+    if (num < 0 || (key === 'fruitVegPercent' && num > 100)) {
+      throw new AnalysisParseError('OUT_OF_RANGE', `"${path}" is out of range (${num}).`, path);
+    }
+    nutrition[key] = num;
+  }
+  return nutrition;
+};
+
+export const validateAnalysis = (data: unknown): ParsedAnalysis => {
+  if (!isRecord(data)) {
+    throw new AnalysisParseError('INVALID_TYPE', 'Analyzer response should be a JSON object.');
+  }
+
+  const productName = requireString(data, 'productName', 'productName');
+  const summary = requireString(data, 'summary', 'summary');
+
+  const nutrition = data.nutrition === undefined || data.nutrition === null
+    ? undefined
+    : validateNutrition(data.nutrition);
+
+  let fssaiNotice = "";
+  if (data.fssaiNotice !== undefined && data.fssaiNotice !== null) {
+    if (typeof data.fssaiNotice !== 'string') {
+      throw new AnalysisParseError('INVALID_TYPE', '"fssaiNotice" should be text.', 'fssaiNotice');
+    }
+    if (!isNoneNotice(data.fssaiNotice)) fssaiNotice = data.fssaiNotice.trim();
+  }
+
+  if (data.ingredients === undefined || data.ingredients === null) {
+    throw new AnalysisParseError('MISSING_FIELD', 'Analyzer response is missing "ingredients".', 'ingredients');
+  }
+  if (!Array.isArray(data.ingredients)) {
+    throw new AnalysisParseError('INVALID_TYPE', '"ingredients" should be a list.', 'ingredients');
+  }
+  if (data.ingredients.length === 0) {
+    throw new AnalysisParseError('EMPTY_INGREDIENTS', "Ingredient list is empty. Please verify the product name.", 'ingredients');
+  }
+  const ingredients = data.ingredients.map(validateIngredient);
+
+  let declaredAllergens: string[] | undefined;
+  if (data.declaredAllergens !== undefined && data.declaredAllergens !== null) {
+    if (!Array.isArray(data.declaredAllergens) || data.declaredAllergens.some(a => typeof a !== 'string')) {
+      throw new AnalysisParseError('INVALID_TYPE', '"declaredAllergens" should be a list of text.', 'declaredAllergens');
+    }
+    declaredAllergens = data.declaredAllergens.map(a => a.trim()).filter(Boolean);
+  }
+
+  let vegMark: VegMark | undefined;
+  if (data.vegMark !== undefined && data.vegMark !== null) {
+    const mark = String(data.vegMark).toLowerCase();
+    if (!VEG_MARKS.includes(mark as VegMark)) {
+      throw new AnalysisParseError('INVALID_TYPE', `"vegMark" must be one of ${VEG_MARKS.join(', ')}, got "${mark}".`, 'vegMark');
+    }
+    vegMark = mark as VegMark;
+  }
+
+  return { productName, summary, ingredients, fssaiNotice, nutrition, declaredAllergens, vegMark };
+};
+
+// Without a response schema the model often adds prose or a markdown fence around the
+// JSON ("Here is the analysis:\n```json {...}```"). Takes the fenced block, or else the
+// first balanced {...}; an unclosed object runs to the end so JSON.parse reports it.
+const extractJsonBlock = (text: string): string | undefined => {
+  const fence = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i);
+  if (fence) return fence[1];
+
+  const start = text.indexOf('{');
+  if (start < 0) return undefined;
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return text.slice(start, i + 1);
+    }
+  }
+  return text.slice(start);
+};
+
+// --- Legacy LIST_START/LIST_END parsing ---
+// Kept for prompts that still ask for the plain-text block format.
+export const parseLegacyAnalysis = (text: string, fallbackName: string): ParsedAnalysis => {
+  let summary = "Analysis complete.";
+  let fssaiNotice = "";
+  const ingredients: Ingredient[] = [];
+
+  const extractValue = (key: string) => {
+    const regex = new RegExp(`${key}:\\s*(.*)`, 'i');
+    const match = text.match(regex);
+    return match ? match[1].trim() : null;
+  };
+
+  // HEALTH_SCORE is ignored: the score is computed from nutrients, which this format lacks.
+  const productName = extractValue("PRODUCT") || fallbackName;
+
+  const summaryMatch = text.match(/SUMMARY:\s*([\s\S]*?)(?=HEALTH_SCORE|FSSAI_NOTICE|LIST_START|$)/i);
+  if (summaryMatch) summary = summaryMatch[1].trim();
+
+  const fssaiMatch = text.match(/FSSAI_NOTICE:\s*([\s\S]*?)(?=LIST_START|$)/i);
+  if (fssaiMatch && !fssaiMatch[1].toLowerCase().includes("none")) {
+    fssaiNotice = fssaiMatch[1].trim();
+  }
+
+  const listMatch = text.match(/LIST_START([\s\S]*?)LIST_END/i);
+  const rows = listMatch ? listMatch[1].trim().split('\n') : [];
+
+  for (const row of rows) {
+    const cleanRow = row.replace(/^[-*•\d.]\s*/, '').trim();
+    const parts = cleanRow.split('|').map(p => p.trim());
+
+    if (parts.length >= 3) {
+      const statusRaw = parts[2].toLowerCase();
+      let status: IngredientStatus = 'neutral';
+      if (statusRaw.includes('harmful') || statusRaw.includes('bad') || statusRaw.includes('danger') || statusRaw.includes('concern')) status = 'harmful';
+      else if (statusRaw.includes('healthy') || statusRaw.includes('good') || statusRaw.includes('safe')) status = 'healthy';
+
+      ingredients.push({
+        name: parts[0],
+        quantity: parts[1] || "N/A",
+        status,
+        description: parts[3] || "Major component found in product label."
+      });
+    }
+  }
+
+  if (ingredients.length === 0) {
+    throw new AnalysisParseError('EMPTY_INGREDIENTS', "Ingredient list could not be parsed. Please verify the product name.", 'ingredients');
+  }
+
+  return { productName, summary, ingredients, fssaiNotice };
+};
+
+// Parses the analyzer reply: schema-validated JSON first, falling back to the
+// legacy plain-text block when the model answered in that format.
+export const parseAnalysisText = (text: string, fallbackName: string): ParsedAnalysis => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new AnalysisParseError('EMPTY_RESPONSE', "No data received from the analyzer. Please try again.");
+  }
+
+  const json = extractJsonBlock(trimmed);
+  if (json) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      if (/LIST_START/i.test(trimmed)) return parseLegacyAnalysis(trimmed, fallbackName);
+      throw new AnalysisParseError('INVALID_JSON', "Analyzer returned malformed JSON. Please try again.");
+    }
+    return validateAnalysis(data);
+  }
+
+  return parseLegacyAnalysis(trimmed, fallbackName);
+};
@@ -0,0 +1,78 @@
+import { LabelPanel, LanguageCode } from '../types';
+import type { AnalysisRequest } from './analyzerProvider';
+import { describeProduct } from './productCatalog';
+import { languageInfo } from '../i18n/languages';
+import { analysisSchema, describeSchema } from './analysisSchema';
+
+// Devanagari through Malayalam: Hindi, Marathi, Bengali, Tamil, Telugu, Kannada and others.
+const hasIndicScript = (text: string) => /[\u0900-\u0d7f]/.test(text);
+
+const describeTarget = ({ query, barcode, product }: AnalysisRequest) => {
+  if (product) return `"${describeProduct(product)}" (EAN ${product.barcode})`;
+  if (query.trim() && barcode) return `"${query}" (EAN ${barcode})`;
+  if (query.trim()) return `"${query}"`;
+  if (barcode) return `with barcode EAN ${barcode}`;
+  return 'shown in the attached label photos';
+};
+
+// An unknown barcode is all we have: make the model identify the pack before analysing it.
+const barcodeInstructions = ({ barcode, product, query }: AnalysisRequest) => {
+  if (!barcode || product || query.trim()) return '';
+  return `
+        BARCODE LOOKUP: Search for the EAN-13 barcode ${barcode} to identify the exact brand, variant and pack size sold in India.
+        Use that identity for productName and for the rest of the analysis.
+        `;
+};
+
+// Product names typed in Devanagari, Tamil, Bengali etc. are searched by their English brand name.
+const queryInstructions = ({ query }: AnalysisRequest) => {
+  if (!hasIndicScript(query)) return '';
+  return `
+        The product name above was typed in an Indian language or script. Work out which product it refers to,
+        search for it by its English brand and product name, and give productName as printed in English on the pack.
+        `;
+};
+
+// Prose fields follow the UI language; ingredient names stay in English (with INS
+// numbers) so the additive database, comparison and dietary checks can match them.
+const languageInstructions = (language?: LanguageCode) => {
+  if (!language || language === 'en') return '';
+  const { name, nativeName } = languageInfo(language);
+  return `
+        OUTPUT LANGUAGE: Write summary, every ingredient description and fssaiNotice in ${name} (${nativeName}), using its native script.
+        Keep every ingredient name in English exactly as printed on the label, including INS numbers, and put the ${name} name in localName.
+        Keep productName, quantities, units, status, origin, declaredAllergens and vegMark in English, and answer fssaiNotice with the English word "None" when there is no warning.
+        `;
+};
+
+// Extra instructions when label photos are attached: the photographed pack is the
+// source of truth, search only fills gaps.
+const photoInstructions = (panels: LabelPanel[]) => {
+  if (panels.length === 0) return '';
+  const described = [...new Set(panels)].map(p => (p === 'ingredients' ? 'ingredient list' : 'nutrition information panel')).join(' and ');
+  return `
+        PHOTOS ATTACHED: The user photographed the ${described} of the exact pack in their hand.
+        Read the product name, ingredients, quantities and nutrition values directly from the photos.
+        Only use web search for details that are missing or unreadable in the photos.
+        Mark each ingredient's origin as "photo" when it was read from a photo and "web" when it came from search.
+        `;
+};
+
+export const buildAnalysisPrompt = (request: AnalysisRequest) => `
+        Perform a deep dive analysis of the Indian food product ${describeTarget(request)}.
+        This product is specifically being checked for the Indian market.
+        ${queryInstructions(request)}${barcodeInstructions(request)}${photoInstructions((request.images || []).map(img => img.panel))}${languageInstructions(request.language)}
+        Step 1: Search for the latest ingredient label of ${describeTarget(request)} in India (check FSSAI filings or recent supermarket listings).
+        Step 2: Identify the EXACT ingredients and their quantities (e.g., "Sugar: 35g per 100g", "Palm Oil: 15%").
+        Step 3: Evaluate each ingredient against modern nutritional science:
+           - "Healthy": Natural, whole ingredients.
+           - "Harmful": Excessive refined sugar, palm oil, MSG (E621), artificial colors (Sunset Yellow, etc.), high sodium, or trans fats.
+           - "Neutral": Stabilizers, emulsifiers (if safe), or minor additives.
+        Step 4: Read the nutrition information panel per 100g: energy, total sugars, saturated fat, sodium, dietary fibre, protein, and the share of fruit/vegetables/pulses/nuts.
+        Step 5: Note the allergen declaration ("Contains ..." / "May contain ...") and whether the pack carries the green (veg) or brown (non-veg) dot.
+        Step 6: DOUBLE CHECK the quantities. If the product has multiple variants, specify which one you found.
+
+        CRITICAL: Respond ONLY with one JSON object in the shape below, with no text before or after it.
+        List every major ingredient in "ingredients".
+${describeSchema(analysisSchema)}
+      `;
@@ -0,0 +1,45 @@
+import { LabelImage, LanguageCode } from '../types';
+import { AnalysisRequest } from './analyzerProvider';
+import { BarcodeError, validateBarcode } from './barcode';
+import { describeProduct, lookupBarcode } from './productCatalog';
+
+// --- Building analysis requests ---
+// Turns what was typed in the app, or a row of a batch file, into an AnalysisRequest:
+// checks the barcode, looks it up in the product catalog and falls back to the catalog
+// name when no product name was given. Shared by index.tsx and server/batch.ts.
+
+export interface ProductInput {
+  query?: string;
+  variant?: string; // e.g. "Masala" or "70 g", appended the way catalog variants are
+  barcode?: string;
+  images?: LabelImage[];
+  language?: LanguageCode;
+}
+
+export type PreparedRequest =
+  | { valid: true; request: AnalysisRequest; unknownBarcode?: string } // barcode not in the catalog
+  | { valid: false; error: BarcodeError; reason: string };
+
+// Returns null when there is nothing to analyse.
+export const prepareAnalysisRequest = ({ query = '', variant = '', barcode = '', images = [], language }: ProductInput): PreparedRequest | null => {
+  const name = query.trim();
+  if (!name && images.length === 0 && !barcode.trim()) return null;
+
+  const check = barcode.trim() ? validateBarcode(barcode) : null;
+  if (check && !check.valid) return check;
+  const ean13 = check?.ean13;
+  const product = ean13 ? lookupBarcode(ean13) : undefined;
+  const typed = name && variant.trim() ? `${name}, ${variant.trim()}` : name;
+
+  return {
+    valid: true,
+    request: {
+      query: typed || (product ? describeProduct(product) : ''),
+      images,
+      barcode: ean13,
+      product,
+      language,
+    },
+    unknownBarcode: ean13 && !product ? ean13 : undefined,
+  };
+};
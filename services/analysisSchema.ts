@@ -0,0 +1,97 @@
+import { Type, Schema } from "@google/genai";
+import { INGREDIENT_ORIGINS, INGREDIENT_STATUSES, VEG_MARKS } from '../types';
+
+// Shape of the analyzer's JSON reply, matching AnalysisResult. `sources` is left out:
+// it comes from grounding metadata, not the model. Gemini rejects a response schema
+// together with search grounding, so the schema is written into the prompt instead
+// (describeSchema) and the reply is checked by validateAnalysis.
+export const ingredientSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: 'Ingredient name in English as printed on the Indian label, keeping any INS number' },
+    quantity: { type: Type.STRING, description: 'Quantity or share, e.g. "35g per 100g" or "15%". Use "N/A" if not declared.' },
+    status: { type: Type.STRING, enum: INGREDIENT_STATUSES, format: 'enum' },
+    localName: { type: Type.STRING, description: 'The ingredient name in the requested output language, when that is not English' },
+    description: { type: Type.STRING, description: 'Concise reason for the status' },
+    origin: {
+      type: Type.STRING,
+      enum: INGREDIENT_ORIGINS,
+      format: 'enum',
+      description: '"photo" if read from an attached label photo, "web" if found through search',
+    },
+  },
+  required: ['name', 'quantity', 'status', 'description', 'origin'],
+  propertyOrdering: ['name', 'localName', 'quantity', 'status', 'description', 'origin'],
+};
+
+const nutrient = (description: string): Schema => ({ type: Type.NUMBER, nullable: true, description });
+
+export const nutritionSchema: Schema = {
+  type: Type.OBJECT,
+  description: 'Nutrition panel values per 100g (or 100ml for drinks). Use null when the label does not declare a value.',
+  properties: {
+    energyKcal: nutrient('Energy in kcal'),
+    sugarG: nutrient('Total sugars in grams'),
+    saturatedFatG: nutrient('Saturated fat in grams'),
+    sodiumMg: nutrient('Sodium in milligrams (not salt)'),
+    fibreG: nutrient('Dietary fibre in grams'),
+    proteinG: nutrient('Protein in grams'),
+    fruitVegPercent: nutrient('Share of fruit, vegetables, pulses and nuts, 0-100'),
+  },
+  required: ['energyKcal', 'sugarG', 'saturatedFatG', 'sodiumMg', 'fibreG', 'proteinG', 'fruitVegPercent'],
+};
+
+export const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    productName: { type: Type.STRING, description: 'Official product name in India' },
+    summary: { type: Type.STRING, description: '2-3 sentence health impact summary' },
+    nutrition: nutritionSchema,
+    fssaiNotice: { type: Type.STRING, description: 'Specific FSSAI warning, or "None"' },
+    ingredients: { type: Type.ARRAY, items: ingredientSchema, minItems: '1' },
+    declaredAllergens: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Allergens named in the pack\'s "Contains" / "May contain" statement; empty if none',
+    },
+    vegMark: {
+      type: Type.STRING,
+      enum: VEG_MARKS,
+      format: 'enum',
+      description: 'Green dot (veg) or brown dot (non-veg) symbol on the pack',
+    },
+  },
+  required: ['productName', 'summary', 'nutrition', 'fssaiNotice', 'ingredients', 'declaredAllergens', 'vegMark'],
+  propertyOrdering: ['productName', 'summary', 'nutrition', 'fssaiNotice', 'ingredients', 'declaredAllergens', 'vegMark'],
+};
+
+// --- Prompt outline ---
+// Renders a schema as a commented JSON outline the model can follow, e.g.
+//   "status": "healthy" | "harmful" | "neutral", // Concise reason
+const describeType = (schema: Schema, indent: string): string => {
+  const nullable = schema.nullable ? ' | null' : '';
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const keys = schema.propertyOrdering || Object.keys(schema.properties || {});
+      const inner = `${indent}  `;
+      const lines = keys.map(key => {
+        const property = schema.properties![key];
+        const comment = [
+          property.type !== Type.OBJECT && property.description,
+          !schema.required?.includes(key) && '(optional)',
+        ].filter(Boolean).join(' ');
+        return `${inner}"${key}": ${describeType(property, inner)},${comment ? ` // ${comment}` : ''}`;
+      });
+      const note = schema.description ? ` // ${schema.description}` : '';
+      return `{${note}\n${lines.join('\n')}\n${indent}}${nullable}`;
+    }
+    case Type.ARRAY:
+      return `[${describeType(schema.items || { type: Type.STRING }, indent)}, ...]${nullable}`;
+    case Type.STRING:
+      return (schema.enum ? schema.enum.map(value => `"${value}"`).join(' | ') : 'string') + nullable;
+    default:
+      return `number${nullable}`;
+  }
+};
+
+export const describeSchema = (schema: Schema) => describeType(schema, '');
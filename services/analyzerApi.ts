@@ -0,0 +1,66 @@
+// --- /api/analyze wire contract ---
+// Shared by the analysis server (server/) and the browser provider that calls it.
+// The request body is an AnalysisRequest; a successful reply is an AnalysisResult.
+// Clients that send `Accept: application/x-ndjson` instead get one AnalyzeStreamEvent
+// per line: partials while the model writes, then a single result or error.
+import { AnalysisResult } from '../types';
+import type { PartialAnalysis } from './partialAnalysis';
+
+export const ANALYZE_ENDPOINT = '/api/analyze';
+
+export const ANALYZE_STREAM_TYPE = 'application/x-ndjson';
+
+export type AnalyzeErrorCode =
+  | 'BAD_REQUEST'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'RATE_LIMITED' // this client sent too many requests
+  | 'QUOTA_EXHAUSTED' // Gemini answered 429 / RESOURCE_EXHAUSTED
+  | 'PARSE_FAILED'
+  | 'UPSTREAM_ERROR'
+  | 'INTERNAL';
+
+export const ERROR_STATUS: Record<AnalyzeErrorCode, number> = {
+  BAD_REQUEST: 400,
+  PAYLOAD_TOO_LARGE: 413,
+  NOT_FOUND: 404,
+  METHOD_NOT_ALLOWED: 405,
+  RATE_LIMITED: 429,
+  QUOTA_EXHAUSTED: 429,
+  PARSE_FAILED: 502,
+  UPSTREAM_ERROR: 502,
+  INTERNAL: 500,
+};
+
+export interface AnalyzeErrorBody {
+  error: {
+    code: AnalyzeErrorCode;
+    message: string;
+    retryAfterSeconds?: number;
+  };
+}
+
+export type AnalyzeStreamEvent =
+  | { type: 'partial'; partial: PartialAnalysis }
+  | { type: 'result'; result: AnalysisResult }
+  | ({ type: 'error' } & AnalyzeErrorBody);
+
+// Thrown by the browser provider for any non-2xx reply, so callers branch on `code`
+// instead of matching message text.
+export class AnalyzeApiError extends Error {
+  code: AnalyzeErrorCode;
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(code: AnalyzeErrorCode, message: string, status = ERROR_STATUS[code], retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'AnalyzeApiError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const isRateLimitError = (err: unknown): err is AnalyzeApiError =>
+  err instanceof AnalyzeApiError && (err.code === 'RATE_LIMITED' || err.code === 'QUOTA_EXHAUSTED');
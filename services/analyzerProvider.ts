@@ -0,0 +1,76 @@
+import { GroundingMetadata } from "@google/genai";
+import { AnalysisResult, Ingredient, LabelImage, LanguageCode } from '../types';
+import { ProviderId } from '../config';
+import { parseAnalysisText, ParsedAnalysis } from './analysisParser';
+import { crossCheckIngredients } from './additiveCheck';
+import { computeHealthScore } from './healthScore';
+import { ADDITIVE_DB_VERSION } from '../data/additives';
+import { CatalogProduct } from '../data/productCatalog';
+import { PartialAnalysis } from './partialAnalysis';
+import { assessConfidence, classifySources } from './sourceCredibility';
+
+export interface AnalysisRequest {
+  query: string;
+  images?: LabelImage[];
+  barcode?: string; // normalised EAN-13
+  product?: CatalogProduct; // catalog entry the barcode resolved to
+  language?: LanguageCode; // output language for the prose fields; English when unset
+}
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal; // aborting rejects analyze() with an AbortError
+  onPartial?: (partial: PartialAnalysis) => void; // called as streamed fields become readable
+}
+
+// Anything that can turn a product query into an AnalysisResult: the live Gemini
+// call, recorded fixtures, or future backends.
+export interface AnalyzerProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  analyze(request: AnalysisRequest, options?: AnalyzeOptions): Promise<AnalysisResult>;
+}
+
+export const isAbortError = (err: unknown) => err instanceof Error && err.name === 'AbortError';
+
+// The subset of a generateContent response the parser needs. Fixture files store
+// exactly this shape, so recorded and live replies go through the same code path.
+export interface RecordedResponse {
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+}
+
+export const extractSources = (metadata?: GroundingMetadata): AnalysisResult['sources'] =>
+  (metadata?.groundingChunks || [])
+    .filter((chunk) => chunk.web?.uri)
+    .map((chunk) => ({
+      title: chunk.web!.title || chunk.web!.uri!,
+      uri: chunk.web!.uri!,
+    }));
+
+// Without photos every row can only have come from web grounding, whatever the model claims.
+const withOrigins = (ingredients: Ingredient[], hasImages: boolean): Ingredient[] =>
+  hasImages ? ingredients : ingredients.map(ing => ({ ...ing, origin: 'web' }));
+
+// Adds everything computed locally rather than by the model: the health score, the
+// additive database verdicts, source kinds and confidence. Ingredient statuses must be
+// the model's own.
+export const enrichAnalysis = (parsed: ParsedAnalysis, sources: AnalysisResult['sources']): AnalysisResult => {
+  const scored = computeHealthScore(parsed.nutrition);
+  const enriched: AnalysisResult = {
+    ...parsed,
+    healthScore: scored?.score,
+    scoreBreakdown: scored?.breakdown,
+    ingredients: crossCheckIngredients(parsed.ingredients),
+    sources: classifySources(sources, parsed.productName),
+    additiveDbVersion: ADDITIVE_DB_VERSION,
+  };
+  return { ...enriched, confidence: assessConfidence(enriched) };
+};
+
+export const resultFromResponse = (response: RecordedResponse, request: AnalysisRequest): AnalysisResult => {
+  const parsed = parseAnalysisText(response.text, request.query || request.barcode || 'Photographed product');
+  return enrichAnalysis(
+    { ...parsed, ingredients: withOrigins(parsed.ingredients, !!request.images?.length) },
+    extractSources(response.groundingMetadata)
+  );
+};
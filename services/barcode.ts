@@ -0,0 +1,30 @@
+// --- EAN-13 / UPC-A barcodes ---
+// UPC-A codes are EAN-13 codes with a leading zero, so both are normalised to
+// 13 digits before lookup.
+
+export type BarcodeError = 'digits' | 'length' | 'checksum';
+
+export type BarcodeCheck =
+  | { valid: true; ean13: string }
+  | { valid: false; error: BarcodeError; reason: string };
+
+export const eanCheckDigit = (first12: string) => {
+  const sum = first12
+    .split('')
+    .reduce((acc, d, i) => acc + Number(d) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const validateBarcode = (input: string): BarcodeCheck => {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return { valid: false, error: 'digits', reason: 'Barcodes contain digits only.' };
+  if (digits.length !== 12 && digits.length !== 13) {
+    return { valid: false, error: 'length', reason: 'Enter the 13-digit EAN or 12-digit UPC printed under the barcode.' };
+  }
+
+  const ean13 = digits.length === 12 ? `0${digits}` : digits;
+  if (eanCheckDigit(ean13.slice(0, 12)) !== Number(ean13[12])) {
+    return { valid: false, error: 'checksum', reason: 'Checksum does not match. Please re-check the digits.' };
+  }
+  return { valid: true, ean13 };
+};
@@ -0,0 +1,50 @@
+import { AnalysisRequest, AnalyzeOptions, AnalyzerProvider } from './analyzerProvider';
+import { checkConsistency } from './sourceCredibility';
+import { findLatestScan, saveScan, scanQueryKey, ScanRecord } from './historyStore';
+
+export interface CachedAnalysis {
+  record: ScanRecord;
+  fromCache: boolean;
+}
+
+// Serves a repeat query from scan history when the stored result is younger than
+// the TTL; otherwise runs the analyzer and stores the new result. Photo scans are
+// always re-run, since two photo sets never describe the same request. `signal` and
+// `onPartial` are passed straight to the analyzer. With `verify` the analyzer runs a
+// second time and the stored result carries the consistency flags; an unverified
+// cached result does not satisfy a verify request.
+export const analyzeWithCache = async (
+  analyzer: AnalyzerProvider,
+  request: AnalysisRequest,
+  { ttlHours, refresh = false, verify = false, signal, onPartial }: { ttlHours: number; refresh?: boolean; verify?: boolean } & AnalyzeOptions
+): Promise<CachedAnalysis> => {
+  const queryKey = scanQueryKey(request.query, request.barcode, request.language);
+  const cacheable = !request.images?.length;
+
+  if (cacheable && !refresh && ttlHours > 0) {
+    // A broken or blocked IndexedDB should never stop a fresh analysis.
+    const cached = await findLatestScan(queryKey).catch(() => undefined);
+    const fresh = cached && Date.now() - cached.createdAt < ttlHours * 3600_000;
+    if (cached && fresh && (!verify || cached.result.verification)) {
+      return { record: cached, fromCache: true };
+    }
+  }
+
+  const first = await analyzer.analyze(request, { signal, onPartial });
+  const result = verify ? checkConsistency(first, await analyzer.analyze(request, { signal })) : first;
+  const record: Omit<ScanRecord, 'id'> = {
+    queryKey: cacheable ? queryKey : `photo:${Date.now()}`,
+    query: request.query,
+    barcode: request.barcode,
+    language: request.language,
+    provider: analyzer.id,
+    model: analyzer.model,
+    createdAt: Date.now(),
+    result,
+  };
+  const saved = await saveScan(record).catch((err) => {
+    console.error(err);
+    return { ...record, id: `unsaved-${record.createdAt}` };
+  });
+  return { record: saved, fromCache: false };
+};
@@ -0,0 +1,173 @@
+import { AnalysisResult, Ingredient, IngredientStatus, NutrientKey } from '../types';
+
+// --- Product comparison ---
+// Lines up two to four analyses: ingredients are matched across products by a
+// canonical key and their quantities normalised to grams per 100g where possible.
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+export interface NormalisedQuantity {
+  per100g: number;
+  approx: boolean; // label gave a bound like "<1%" rather than a figure
+}
+
+export interface AlignedCell {
+  ingredient: Ingredient;
+  quantity: NormalisedQuantity | null;
+}
+
+export interface AlignedRow {
+  key: string;
+  label: string;
+  cells: (AlignedCell | null)[]; // one per product, null when absent
+  sharedBy: number;
+}
+
+export type DimensionKey = 'healthScore' | 'harmfulCount' | 'additiveCount' | 'sugarG' | 'saturatedFatG' | 'sodiumMg';
+
+export interface ComparisonDimension {
+  key: DimensionKey;
+  label: string;
+  unit?: string;
+  values: (number | null)[];
+  winners: number[]; // indexes of the best products; several on a tie
+}
+
+export interface Comparison {
+  products: AnalysisResult[];
+  dimensions: ComparisonDimension[];
+  rows: AlignedRow[];
+  sharedAdditives: string[];
+}
+
+// Label names that mean the same thing for comparison purposes.
+const SYNONYM_GROUPS: { key: string; label: string; patterns: RegExp[] }[] = [
+  { key: 'sugar', label: 'Sugar', patterns: [/^(?:refined |added )?sugar\b/, /\bsucrose\b/] },
+  { key: 'palm-oil', label: 'Palm oil', patterns: [/\bpalm(?:olein| oil| fat)?\b/] },
+  { key: 'salt', label: 'Salt', patterns: [/^(?:iodi[sz]ed )?salt\b/, /\bsodium chloride\b/] },
+  { key: 'maida', label: 'Refined wheat flour', patterns: [/\bmaida\b/, /\brefined wheat flour\b/] },
+  { key: 'atta', label: 'Whole wheat flour', patterns: [/\batta\b/, /\bwhole ?wheat flour\b/] },
+  { key: 'besan', label: 'Gram flour', patterns: [/\bbesan\b/, /\bgram flour\b/] },
+  { key: 'milk-solids', label: 'Milk solids', patterns: [/\bmilk solids\b/, /\bmilk powder\b/] },
+  { key: 'invert-syrup', label: 'Invert sugar syrup', patterns: [/\binvert (?:sugar )?syrup\b/] },
+  { key: 'vegetable-oil', label: 'Vegetable oil', patterns: [/\bvegetable oil\b/] },
+];
+
+const cleanName = (name: string) => name.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Drops bracketed detail, e.g. "wheat gluten (2%)" -> "wheat gluten".
+const normaliseName = (name: string) => cleanName(name.replace(/\(.*?\)/g, ' '));
+
+// Canonical key for aligning an ingredient across products: a synonym group first,
+// then the first matched INS additive, then the cleaned-up name.
+export const ingredientKey = (ingredient: Ingredient): { key: string; label: string } => {
+  // Bracketed detail still counts for synonyms: "Vegetable Oil (Palmolein)" is palm oil.
+  const full = cleanName(ingredient.name);
+  const group = SYNONYM_GROUPS.find(g => g.patterns.some(p => p.test(full)));
+  if (group) return { key: group.key, label: group.label };
+
+  const additive = ingredient.additives?.[0];
+  if (additive) return { key: additive.id, label: additive.ins ? `${additive.name} (INS ${additive.ins})` : additive.name };
+
+  return { key: ingredientNameKey(ingredient), label: ingredient.name };
+};
+
+// The cleaned-up name alone, without synonym groups: matches the same label row between
+// two runs for one product, where "Palmolein oil" and "Palm fat" are different rows.
+export const ingredientNameKey = (ingredient: Ingredient) =>
+  normaliseName(ingredient.name) || cleanName(ingredient.name);
+
+const UNIT_TO_GRAMS: Record<string, number> = { mg: 0.001, g: 1, kg: 1000 };
+
+// Parses label quantities into grams per 100g (or 100ml): "35g per 100g", "15%",
+// "5 g per 30 g serving", "1.2g sodium per 100g", "<1%". Returns null when the
+// text carries no usable amount. Commas between digit groups are thousands
+// separators ("1,190 mg", "1,00,000"); a comma before one or two digits is a
+// decimal comma ("1,5 g").
+export const normaliseQuantity = (quantity: string): NormalisedQuantity | null => {
+  const text = quantity
+    .toLowerCase()
+    .replace(/(\d),(?=(?:\d{2},)*\d{3}\b)/g, '$1')
+    .replace(/(\d),(\d{1,2})(?!\d)/g, '$1.$2');
+  const approx = /[<~≈]|approx|about|upto|up to/.test(text);
+
+  const perBase = text.match(/(\d+(?:\.\d+)?)\s*(mg|g|kg)\b[^\d]*?(?:per|\/|in)\s*(\d+(?:\.\d+)?)\s*(g|ml)\b/);
+  if (perBase) {
+    const grams = parseFloat(perBase[1]) * UNIT_TO_GRAMS[perBase[2]];
+    const base = parseFloat(perBase[3]);
+    if (base > 0) return { per100g: Math.round((grams * 100 / base) * 100) / 100, approx };
+  }
+
+  const percent = text.match(/(\d+(?:\.\d+)?)\s*%/);
+  if (percent) return { per100g: parseFloat(percent[1]), approx };
+
+  return null;
+};
+
+type Direction = 'higher' | 'lower';
+
+const pickWinners = (values: (number | null)[], direction: Direction): number[] => {
+  const present = values.filter((v): v is number => v !== null);
+  if (present.length < 2) return [];
+  const best = direction === 'higher' ? Math.max(...present) : Math.min(...present);
+  return values.flatMap((v, i) => (v === best ? [i] : []));
+};
+
+const countStatus = (result: AnalysisResult, status: IngredientStatus) =>
+  result.ingredients.filter(i => i.status === status).length;
+
+const countAdditives = (result: AnalysisResult) =>
+  new Set(result.ingredients.flatMap(i => (i.additives || []).map(a => a.id))).size;
+
+const nutrientDimension = (products: AnalysisResult[], key: NutrientKey & DimensionKey, label: string, unit: string): ComparisonDimension => {
+  const values = products.map(p => p.nutrition?.[key] ?? null);
+  return { key, label, unit, values, winners: pickWinners(values, 'lower') };
+};
+
+export const buildComparison = (products: AnalysisResult[]): Comparison => {
+  const scores = products.map(p => p.healthScore ?? null);
+  const harmful = products.map(p => countStatus(p, 'harmful'));
+  const additives = products.map(countAdditives);
+
+  const dimensions: ComparisonDimension[] = [
+    { key: 'healthScore', label: 'Health score', values: scores, winners: pickWinners(scores, 'higher') },
+    { key: 'harmfulCount', label: 'Harmful ingredients', values: harmful, winners: pickWinners(harmful, 'lower') },
+    { key: 'additiveCount', label: 'INS additives', values: additives, winners: pickWinners(additives, 'lower') },
+    nutrientDimension(products, 'sugarG', 'Sugar', 'g'),
+    nutrientDimension(products, 'saturatedFatG', 'Saturated fat', 'g'),
+    nutrientDimension(products, 'sodiumMg', 'Sodium', 'mg'),
+  ];
+
+  const rowsByKey = new Map<string, AlignedRow>();
+  products.forEach((product, index) => {
+    for (const ingredient of product.ingredients) {
+      const { key, label } = ingredientKey(ingredient);
+      let row = rowsByKey.get(key);
+      if (!row) {
+        row = { key, label, cells: products.map(() => null), sharedBy: 0 };
+        rowsByKey.set(key, row);
+      }
+      // Keep the first occurrence per product; labels rarely list the same thing twice.
+      if (!row.cells[index]) {
+        row.cells[index] = { ingredient, quantity: normaliseQuantity(ingredient.quantity) };
+        row.sharedBy += 1;
+      }
+    }
+  });
+
+  // Rows present in more products come first.
+  const rows = [...rowsByKey.values()].sort((a, b) => b.sharedBy - a.sharedBy);
+
+  const additiveUse = new Map<string, { name: string; products: Set<number> }>();
+  products.forEach((product, index) => {
+    for (const additive of product.ingredients.flatMap(i => i.additives || [])) {
+      const entry = additiveUse.get(additive.id) || { name: additive.ins ? `${additive.name} (INS ${additive.ins})` : additive.name, products: new Set<number>() };
+      entry.products.add(index);
+      additiveUse.set(additive.id, entry);
+    }
+  });
+  const sharedAdditives = [...additiveUse.values()].filter(a => a.products.size >= 2).map(a => a.name);
+
+  return { products, dimensions, rows, sharedAdditives };
+};
@@ -0,0 +1,142 @@
+import { AllergenId, AnalysisResult, DietaryProfile } from '../types';
+import {
+  ALLERGEN_TERMS,
+  DIABETIC_SUGAR_LIMIT_G,
+  JAIN_EXTRA_TERMS,
+  MAYBE_NON_VEG,
+  NON_VEG_TERMS,
+  SUGAR_TERMS,
+  TermGroup,
+  VEGAN_EXTRA_TERMS,
+} from '../data/dietaryTerms';
+import { extractInsCodes } from './additiveCheck';
+
+export type IssueSeverity = 'avoid' | 'caution';
+
+// What rule an issue came from; the UI turns kind + term into a sentence in the
+// user's language.
+export type IssueKind =
+  | 'allergen'
+  | 'declared'
+  | 'nonVegMark'
+  | 'animal'
+  | 'maybeAnimal'
+  | 'notVegan'
+  | 'notJain'
+  | 'addedSugar'
+  | 'sugarLevel'
+  | 'avoidList';
+
+export interface DietaryIssue {
+  severity: IssueSeverity;
+  kind: IssueKind;
+  term?: string; // matched word, declared statement or avoid-list item
+  allergen?: AllergenId;
+  sugarG?: number;
+  ingredient?: string;
+}
+
+export interface ProfileWarning {
+  profile: DietaryProfile;
+  issues: DietaryIssue[];
+}
+
+// Letters of every script are kept, so avoid-list words typed in Devanagari, Tamil or
+// Bengali still match the ingredient's local name.
+const normalise = (text: string) => ` ${text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim()} `;
+
+// False for text with no letters or digits, which could never match an ingredient.
+export const isMatchableTerm = (text: string) => normalise(text).trim() !== '';
+
+// Returns the term (or "INS nnn") that puts the text in the group, or null. Excluded
+// phrases are blanked out first so "cocoa butter" never reads as "butter".
+export const findTerm = (text: string, group: TermGroup): string | null => {
+  let haystack = normalise(text);
+  for (const phrase of group.exclude || []) haystack = haystack.split(normalise(phrase)).join('  ');
+
+  const term = group.terms.find(t => haystack.includes(normalise(t)));
+  if (term) return term;
+
+  const code = group.insCodes && extractInsCodes(text).find(c => group.insCodes!.includes(c));
+  return code ? `INS ${code}` : null;
+};
+
+const scanIngredients = (result: AnalysisResult, group: TermGroup, severity: IssueSeverity, kind: IssueKind): DietaryIssue[] =>
+  result.ingredients.flatMap((ing) => {
+    const term = findTerm(ing.name, group) || (ing.localName ? findTerm(ing.localName, group) : null);
+    return term ? [{ severity, kind, term, ingredient: ing.name }] : [];
+  });
+
+const checkAllergen = (result: AnalysisResult, id: AllergenId): DietaryIssue[] => {
+  const group = ALLERGEN_TERMS[id];
+  const issues: DietaryIssue[] = scanIngredients(result, group, 'avoid', 'allergen').map(issue => ({ ...issue, allergen: id }));
+  const declaredGroup = { ...group, terms: [...group.terms, ...(group.declaredTerms || [])] };
+  const declared = (result.declaredAllergens || []).find(a => findTerm(a, declaredGroup) || normalise(a).includes(normalise(group.label)));
+  if (declared) {
+    const mayContain = /may contain|traces/i.test(declared);
+    issues.push({
+      severity: mayContain ? 'caution' : 'avoid',
+      kind: 'declared',
+      term: declared,
+      allergen: id,
+    });
+  }
+  return issues;
+};
+
+const checkDiet = (result: AnalysisResult, profile: DietaryProfile): DietaryIssue[] => {
+  if (profile.diet === 'any') return [];
+
+  const issues: DietaryIssue[] = [];
+  if (result.vegMark === 'non-veg') {
+    issues.push({ severity: 'avoid', kind: 'nonVegMark' });
+  }
+  issues.push(...scanIngredients(result, NON_VEG_TERMS, 'avoid', 'animal'));
+  if (result.vegMark !== 'veg') {
+    issues.push(...scanIngredients(result, MAYBE_NON_VEG, 'caution', 'maybeAnimal'));
+  }
+  if (profile.diet === 'vegan') {
+    issues.push(...scanIngredients(result, VEGAN_EXTRA_TERMS, 'avoid', 'notVegan'));
+  }
+  if (profile.diet === 'jain') {
+    issues.push(...scanIngredients(result, JAIN_EXTRA_TERMS, 'avoid', 'notJain'));
+  }
+  return issues;
+};
+
+const checkDiabetic = (result: AnalysisResult): DietaryIssue[] => {
+  const issues = scanIngredients(result, SUGAR_TERMS, 'caution', 'addedSugar');
+  const sugar = result.nutrition?.sugarG;
+  if (sugar !== undefined && sugar !== null && sugar > DIABETIC_SUGAR_LIMIT_G) {
+    issues.unshift({ severity: 'avoid', kind: 'sugarLevel', sugarG: sugar });
+  }
+  return issues;
+};
+
+const checkAvoidList = (result: AnalysisResult, avoid: string[]): DietaryIssue[] =>
+  avoid.filter(isMatchableTerm).flatMap(item =>
+    scanIngredients(result, { label: item, terms: [item] }, 'avoid', 'avoidList').map(issue => ({ ...issue, term: item })));
+
+// Same ingredient hitting several rules (e.g. "egg" as allergen and as non-veg) is shown once.
+const dedupe = (issues: DietaryIssue[]) => {
+  const seen = new Set<string>();
+  return issues.filter((issue) => {
+    const key = [issue.kind, issue.allergen, issue.term, issue.ingredient].join('|');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const checkProfile = (profile: DietaryProfile, result: AnalysisResult): ProfileWarning => ({
+  profile,
+  issues: dedupe([
+    ...profile.allergens.flatMap(id => checkAllergen(result, id)),
+    ...checkDiet(result, profile),
+    ...(profile.diabetic ? checkDiabetic(result) : []),
+    ...checkAvoidList(result, profile.avoid),
+  ]),
+});
+
+export const checkProfiles = (profiles: DietaryProfile[], result: AnalysisResult): ProfileWarning[] =>
+  profiles.map(p => checkProfile(p, result));
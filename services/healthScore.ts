@@ -0,0 +1,114 @@
+import { HealthScoreBreakdown, NutriGrade, NutrientKey, NutritionPer100g, ScoreComponent } from '../types';
+
+// --- Health score engine ---
+// Deterministic score computed from per-100g nutrients, following the 2017 Nutri-Score
+// algorithm for general foods (the model FSSAI's proposed front-of-pack "Indian
+// Nutrition Rating" is also built on):
+//
+//   1. Negative points, 0-10 each: energy (kJ), total sugars, saturated fat, sodium.
+//   2. Positive points, 0-5 each: fruit/veg/pulses/nuts share, fibre, protein.
+//   3. Nutri-Score points N = negatives - positives (range -15..40). When negatives
+//      reach 11 or more, protein is not counted unless fruit/veg earns the full 5.
+//   4. Health score = (40 - N) / 55 * 100, so every Nutri-Score point moves the
+//      0-100 score by 100/55 ≈ 1.8. Grade: A <= -1, B <= 2, C <= 10, D <= 18, else E.
+//
+// Drinks are scored on the same per-100ml table. The four negative nutrients are
+// required; missing positive nutrients earn no points.
+
+const MAX_POINTS = 40;
+const POINT_RANGE = 55;
+const POINT_VALUE = 100 / POINT_RANGE;
+const KCAL_TO_KJ = 4.184;
+
+// Thresholds are "greater than" bounds: a value above the nth entry earns n points.
+const NEGATIVE_THRESHOLDS: Record<'energyKj' | 'sugarG' | 'saturatedFatG' | 'sodiumMg', number[]> = {
+  energyKj: [335, 670, 1005, 1340, 1675, 2010, 2345, 2680, 3015, 3350],
+  sugarG: [4.5, 9, 13.5, 18, 22.5, 27, 31, 36, 40, 45],
+  saturatedFatG: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+  sodiumMg: [90, 180, 270, 360, 450, 540, 630, 720, 810, 900],
+};
+
+const FIBRE_THRESHOLDS = [0.9, 1.9, 2.8, 3.7, 4.7];
+const PROTEIN_THRESHOLDS = [1.6, 3.2, 4.8, 6.4, 8.0];
+
+const pointsFor = (value: number, thresholds: number[]) => thresholds.filter(t => value > t).length;
+
+const fruitVegPoints = (percent: number) => {
+  if (percent > 80) return 5;
+  if (percent > 60) return 2;
+  if (percent > 40) return 1;
+  return 0;
+};
+
+const gradeFor = (points: number): NutriGrade => {
+  if (points <= -1) return 'A';
+  if (points <= 2) return 'B';
+  if (points <= 10) return 'C';
+  if (points <= 18) return 'D';
+  return 'E';
+};
+
+const NUTRIENT_META: Record<NutrientKey, { label: string; unit: string }> = {
+  energyKcal: { label: 'Energy', unit: 'kcal' },
+  sugarG: { label: 'Sugar', unit: 'g' },
+  saturatedFatG: { label: 'Saturated fat', unit: 'g' },
+  sodiumMg: { label: 'Sodium', unit: 'mg' },
+  fibreG: { label: 'Fibre', unit: 'g' },
+  proteinG: { label: 'Protein', unit: 'g' },
+  fruitVegPercent: { label: 'Fruit / veg', unit: '%' },
+};
+
+const REQUIRED: NutrientKey[] = ['energyKcal', 'sugarG', 'saturatedFatG', 'sodiumMg'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const component = (nutrient: NutrientKey, value: number | null, points: number, sign: 1 | -1): ScoreComponent => ({
+  nutrient,
+  ...NUTRIENT_META[nutrient],
+  value,
+  points,
+  contribution: round1(sign * points * POINT_VALUE),
+});
+
+export const canScore = (nutrition?: NutritionPer100g): nutrition is NutritionPer100g =>
+  !!nutrition && REQUIRED.every(key => nutrition[key] !== null);
+
+// Returns null when any of the four negative nutrients is undeclared, rather than
+// inventing a score.
+export const computeHealthScore = (nutrition?: NutritionPer100g): { score: number; breakdown: HealthScoreBreakdown } | null => {
+  if (!canScore(nutrition)) return null;
+
+  const energy = pointsFor(nutrition.energyKcal! * KCAL_TO_KJ, NEGATIVE_THRESHOLDS.energyKj);
+  const sugar = pointsFor(nutrition.sugarG!, NEGATIVE_THRESHOLDS.sugarG);
+  const satFat = pointsFor(nutrition.saturatedFatG!, NEGATIVE_THRESHOLDS.saturatedFatG);
+  const sodium = pointsFor(nutrition.sodiumMg!, NEGATIVE_THRESHOLDS.sodiumMg);
+  const negative = energy + sugar + satFat + sodium;
+
+  const fruitVeg = fruitVegPoints(nutrition.fruitVegPercent ?? 0);
+  const fibre = pointsFor(nutrition.fibreG ?? 0, FIBRE_THRESHOLDS);
+  const rawProtein = pointsFor(nutrition.proteinG ?? 0, PROTEIN_THRESHOLDS);
+  const proteinCapped = negative >= 11 && fruitVeg < 5 && rawProtein > 0;
+  const protein = proteinCapped ? 0 : rawProtein;
+
+  const nutriScorePoints = negative - (fruitVeg + fibre + protein);
+  const score = Math.round((MAX_POINTS - nutriScorePoints) * POINT_VALUE);
+
+  return {
+    score,
+    breakdown: {
+      baseline: round1(MAX_POINTS * POINT_VALUE),
+      nutriScorePoints,
+      grade: gradeFor(nutriScorePoints),
+      proteinCapped,
+      components: [
+        component('energyKcal', nutrition.energyKcal, energy, -1),
+        component('sugarG', nutrition.sugarG, sugar, -1),
+        component('saturatedFatG', nutrition.saturatedFatG, satFat, -1),
+        component('sodiumMg', nutrition.sodiumMg, sodium, -1),
+        component('fibreG', nutrition.fibreG, fibre, 1),
+        component('proteinG', nutrition.proteinG, protein, 1),
+        component('fruitVegPercent', nutrition.fruitVegPercent, fruitVeg, 1),
+      ],
+    },
+  };
+};
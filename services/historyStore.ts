@@ -0,0 +1,82 @@
+import { AnalysisResult, LanguageCode } from '../types';
+import { ProviderId } from '../config';
+
+// --- Scan history (IndexedDB) ---
+// Every analysis is stored locally so past scans survive reloads, work offline and
+// can be served again without a new Gemini call.
+
+export interface ScanRecord {
+  id: string;
+  queryKey: string; // see scanQueryKey
+  query: string;
+  barcode?: string;
+  language?: LanguageCode; // output language of the prose fields; English when unset
+  provider: ProviderId;
+  model: string;
+  createdAt: number; // epoch ms
+  result: AnalysisResult;
+}
+
+const DB_NAME = 'pureplate';
+const DB_VERSION = 1;
+const STORE = 'scans';
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('queryKey', 'queryKey');
+        store.createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+// Case, spacing and punctuation do not change what product is meant; a barcode
+// identifies the pack better than any typed name. Marks are kept so Indic-script
+// names (vowel signs, viramas) stay intact.
+export const normaliseQuery = (query: string) =>
+  query.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim();
+
+// Results in another language are separate entries; English keys carry no suffix.
+export const scanQueryKey = (query: string, barcode?: string, language?: LanguageCode) => {
+  const key = barcode ? `ean:${barcode}` : `q:${normaliseQuery(query)}`;
+  return language && language !== 'en' ? `${key}|${language}` : key;
+};
+
+export const saveScan = (record: Omit<ScanRecord, 'id'>): Promise<ScanRecord> => {
+  const saved = { ...record, id: `${record.createdAt}-${Math.random().toString(36).slice(2, 8)}` };
+  return withStore('readwrite', store => store.put(saved)).then(() => saved);
+};
+
+// Newest record for the key, or undefined.
+export const findLatestScan = async (queryKey: string): Promise<ScanRecord | undefined> => {
+  const records = await withStore<ScanRecord[]>('readonly', store => store.index('queryKey').getAll(queryKey));
+  return records.sort((a, b) => b.createdAt - a.createdAt)[0];
+};
+
+export const listScans = async (): Promise<ScanRecord[]> => {
+  const records = await withStore<ScanRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteScan = (id: string) => withStore('readwrite', store => store.delete(id)).then(() => undefined);
+
+export const clearScans = () => withStore('readwrite', store => store.clear()).then(() => undefined);
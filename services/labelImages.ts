@@ -0,0 +1,42 @@
+import { LabelImage, LabelPanel } from '../types';
+
+// Phone photos are often 4000px+; the model reads labels fine at this size and
+// the request stays well under inline-data limits.
+const MAX_EDGE = 1600;
+const JPEG_QUALITY = 0.85;
+
+const loadImage = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not read the selected photo. Please try a JPEG or PNG image."));
+  img.src = url;
+});
+
+// Reads a picked or captured photo, downscales it and returns it as base64 JPEG.
+export const readLabelImage = async (file: File, panel: LabelPanel): Promise<LabelImage> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`"${file.name}" is not an image.`);
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, MAX_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      panel,
+      mimeType: 'image/jpeg',
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const labelImageSrc = (image: LabelImage) => `data:${image.mimeType};base64,${image.data}`;
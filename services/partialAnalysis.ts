@@ -0,0 +1,95 @@
+import { Ingredient } from '../types';
+import { isNoneNotice, validateIngredient } from './analysisParser';
+import { crossCheckIngredients } from './additiveCheck';
+
+// --- Partial (streamed) analyses ---
+// While the model is still writing its JSON reply, pull out whatever is already
+// complete: the top-level text fields and every closed ingredient object. The final
+// result still goes through parseAnalysisText; this is only for early rendering.
+
+export interface PartialAnalysis {
+  productName?: string;
+  summary?: string;
+  fssaiNotice?: string;
+  ingredients: Ingredient[];
+}
+
+export const isEmptyPartial = (partial: PartialAnalysis) =>
+  !partial.productName && !partial.summary && partial.ingredients.length === 0;
+
+// A top-level string field whose closing quote has already arrived.
+const completeString = (text: string, key: string): string | undefined => {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*("(?:[^"\\\\]|\\\\.)*")`));
+  if (!match) return undefined;
+  try {
+    const value = (JSON.parse(match[1]) as string).trim();
+    return value || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Walks the "ingredients" array, tracking strings and nesting, and returns the raw
+// text of each object that has been closed so far.
+const closedIngredientObjects = (text: string): string[] => {
+  const key = text.search(/"ingredients"\s*:\s*\[/);
+  if (key < 0) return [];
+
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = text.indexOf('[', key) + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) objects.push(text.slice(start, i + 1));
+    } else if (ch === ']' && depth === 0) {
+      break;
+    }
+  }
+  return objects;
+};
+
+export const parsePartialAnalysis = (text: string): PartialAnalysis => {
+  const ingredients = closedIngredientObjects(text).flatMap((raw, index) => {
+    try {
+      return [validateIngredient(JSON.parse(raw), index)];
+    } catch {
+      return []; // a malformed row will be reported by the final parse
+    }
+  });
+  const notice = completeString(text, 'fssaiNotice');
+
+  return {
+    productName: completeString(text, 'productName'),
+    summary: completeString(text, 'summary'),
+    fssaiNotice: notice && !isNoneNotice(notice) ? notice : undefined,
+    ingredients: crossCheckIngredients(ingredients),
+  };
+};
+
+// Feeds the growing reply text through the partial parser and calls `onPartial`
+// only when something new became readable.
+export const partialReporter = (onPartial?: (partial: PartialAnalysis) => void) => {
+  let last = '';
+  return (text: string) => {
+    if (!onPartial) return;
+    const partial = parsePartialAnalysis(text);
+    if (isEmptyPartial(partial)) return;
+    const signature = JSON.stringify(partial);
+    if (signature === last) return;
+    last = signature;
+    onPartial(partial);
+  };
+};
@@ -0,0 +1,34 @@
+import { BUNDLED_CATALOG, CatalogProduct } from '../data/productCatalog';
+
+const STORAGE_KEY = 'pureplate.catalog.v1';
+
+// localStorage is absent outside the browser; the catalog then falls back to the bundled seed.
+const storage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+const loadUserCatalog = (): CatalogProduct[] => {
+  try {
+    const raw = storage()?.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// User-confirmed entries win over bundled ones with the same barcode.
+export const lookupBarcode = (ean13: string): CatalogProduct | undefined =>
+  loadUserCatalog().find(p => p.barcode === ean13) || BUNDLED_CATALOG.find(p => p.barcode === ean13);
+
+export const saveCatalogProduct = (product: CatalogProduct) => {
+  const entries = loadUserCatalog().filter(p => p.barcode !== product.barcode);
+  storage()?.setItem(STORAGE_KEY, JSON.stringify([...entries, product]));
+};
+
+// "Haldiram's Bhujia Sev, Classic (400 g)" — used both as the analysis query and in the UI.
+export const describeProduct = (product: CatalogProduct) => {
+  const base = product.name.toLowerCase().startsWith(product.brand.toLowerCase())
+    ? product.name
+    : `${product.brand} ${product.name}`;
+  const variant = product.variant ? `, ${product.variant}` : '';
+  const pack = product.packSize ? ` (${product.packSize})` : '';
+  return `${base}${variant}${pack}`;
+};
@@ -0,0 +1,27 @@
+import { DietaryProfile } from '../types';
+
+const STORAGE_KEY = 'pureplate.profiles.v1';
+
+const storage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+export const loadProfiles = (): DietaryProfile[] => {
+  try {
+    const raw = storage()?.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveProfiles = (profiles: DietaryProfile[]) => {
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const newProfile = (): DietaryProfile => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  name: '',
+  allergens: [],
+  diet: 'any',
+  diabetic: false,
+  avoid: [],
+});
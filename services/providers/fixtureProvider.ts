@@ -0,0 +1,43 @@
+import { AnalysisRequest, AnalyzeOptions, AnalyzerProvider, RecordedResponse, resultFromResponse } from '../analyzerProvider';
+import { partialReporter } from '../partialAnalysis';
+
+// Fixture files are named after the slugged query, e.g. "Maggi Noodles" -> maggi-noodles.json.
+export const fixtureSlug = (query: string) =>
+  query.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Recorded text is replayed to onPartial in slices of this many characters.
+const REPLAY_SLICE = 200;
+
+export type FixtureLoader = (slug: string) => Promise<RecordedResponse | null>;
+
+// The Vite dev server and SPA hosts answer a missing file with index.html and a 200,
+// so anything that is not served as JSON counts as missing.
+export const fetchFixtureLoader = (baseUrl: string): FixtureLoader => async (slug) => {
+  const res = await fetch(`${baseUrl}/${slug}.json`);
+  if (!res.ok || !/\bjson\b/i.test(res.headers.get('content-type') || '')) return null;
+  return res.json();
+};
+
+// Replays recorded Gemini responses (text plus grounding metadata) so the app can be
+// run, demoed and exercised without an API key or network.
+export const createFixtureProvider = (load: FixtureLoader, model = 'fixture'): AnalyzerProvider => ({
+  id: 'fixture',
+  model,
+  async analyze(request: AnalysisRequest, { signal, onPartial }: AnalyzeOptions = {}) {
+    const query = request.query || request.barcode || '';
+    // Names in other scripts slug to nothing; fall back to the barcode rather than
+    // looking every such query up under the same empty name.
+    const slug = fixtureSlug(request.query) || fixtureSlug(request.barcode || '');
+    if (!slug) {
+      throw new Error(`No fixture name for "${query}". Fixtures are named after a product name in Latin letters or a barcode; switch to the Gemini provider for other queries.`);
+    }
+    const recorded = await load(slug);
+    signal?.throwIfAborted();
+    if (!recorded) {
+      throw new Error(`No recorded response for "${query}". Add fixtures/${slug}.json or switch to the Gemini provider.`);
+    }
+    const report = partialReporter(onPartial);
+    for (let end = REPLAY_SLICE; end < recorded.text.length; end += REPLAY_SLICE) report(recorded.text.slice(0, end));
+    return resultFromResponse(recorded, request);
+  },
+});
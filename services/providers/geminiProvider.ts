@@ -0,0 +1,45 @@
+import { GoogleGenAI, GroundingMetadata } from "@google/genai";
+import { AnalysisRequest, AnalyzeOptions, AnalyzerProvider, resultFromResponse } from '../analyzerProvider';
+import { buildAnalysisPrompt } from '../analysisPrompt';
+import { partialReporter } from '../partialAnalysis';
+
+export const createGeminiProvider = (model: string, apiKey?: string): AnalyzerProvider => ({
+  id: 'gemini',
+  model,
+  async analyze(request: AnalysisRequest, { signal, onPartial }: AnalyzeOptions = {}) {
+    const { images = [] } = request;
+    // Create a fresh instance to ensure the latest API key is used
+    const ai = new GoogleGenAI({ apiKey });
+
+    const prompt = buildAnalysisPrompt(request);
+    const stream = await ai.models.generateContentStream({
+      model,
+      contents: images.length === 0 ? prompt : [{
+        role: 'user',
+        parts: [
+          { text: prompt },
+          ...images.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } })),
+        ],
+      }],
+      // No responseSchema: Gemini rejects it alongside search grounding. The prompt
+      // spells out the JSON shape and parseAnalysisText checks the reply.
+      config: {
+        tools: [{ googleSearch: {} }],
+        abortSignal: signal,
+      },
+    });
+
+    // Grounding metadata arrives on the later chunks; keep the last one that has it.
+    const report = partialReporter(onPartial);
+    let text = '';
+    let groundingMetadata: GroundingMetadata | undefined;
+    for await (const chunk of stream) {
+      text += chunk.text || '';
+      groundingMetadata = chunk.candidates?.[0]?.groundingMetadata || groundingMetadata;
+      report(text);
+    }
+    signal?.throwIfAborted();
+
+    return resultFromResponse({ text, groundingMetadata }, request);
+  },
+});
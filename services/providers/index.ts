@@ -0,0 +1,15 @@
+import { AnalyzerConfig } from '../../config';
+import { AnalyzerProvider } from '../analyzerProvider';
+import { createFixtureProvider, fetchFixtureLoader } from './fixtureProvider';
+import { createServerProvider } from './serverProvider';
+
+// Browser-side providers only; the Gemini provider is wired up by server/main.ts.
+export const createAnalyzerProvider = (config: AnalyzerConfig): AnalyzerProvider => {
+  switch (config.provider) {
+    case 'fixture':
+      return createFixtureProvider(fetchFixtureLoader(config.fixtureBaseUrl), config.model);
+    case 'server':
+    default:
+      return createServerProvider(config.apiEndpoint, config.model);
+  }
+};
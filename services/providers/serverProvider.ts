@@ -0,0 +1,57 @@
+import { AnalysisResult } from '../../types';
+import { AnalysisRequest, AnalyzeOptions, AnalyzerProvider } from '../analyzerProvider';
+import { ANALYZE_STREAM_TYPE, AnalyzeApiError, AnalyzeErrorBody, AnalyzeStreamEvent } from '../analyzerApi';
+
+const isErrorBody = (body: unknown): body is AnalyzeErrorBody =>
+  typeof body === 'object' && body !== null && typeof (body as AnalyzeErrorBody).error?.code === 'string';
+
+// Stream errors arrive after a 200 header, so they take the code's usual status.
+const toApiError = ({ error }: AnalyzeErrorBody, status?: number) =>
+  new AnalyzeApiError(error.code, error.message, status, error.retryAfterSeconds);
+
+// Splits the NDJSON body into events as the bytes arrive.
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<AnalyzeStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    for (const line of lines) if (line.trim()) yield JSON.parse(line);
+    if (done) return;
+  }
+}
+
+// Sends the request to the analysis server (server/main.ts), which holds the API key
+// and runs Gemini plus parsing. Partials are streamed back as NDJSON when a caller
+// wants them; error replies become AnalyzeApiError.
+export const createServerProvider = (endpoint: string, model: string): AnalyzerProvider => ({
+  id: 'server',
+  model,
+  async analyze(request: AnalysisRequest, { signal, onPartial }: AnalyzeOptions = {}) {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: onPartial ? ANALYZE_STREAM_TYPE : 'application/json' },
+      body: JSON.stringify(request),
+      signal,
+    });
+
+    if (res.ok && res.body && res.headers.get('Content-Type')?.startsWith(ANALYZE_STREAM_TYPE)) {
+      for await (const event of readEvents(res.body)) {
+        if (event.type === 'partial') onPartial?.(event.partial);
+        else if (event.type === 'result') return event.result;
+        else throw toApiError(event);
+      }
+      throw new AnalyzeApiError('UPSTREAM_ERROR', 'Analysis stream ended without a result.', 502);
+    }
+
+    const body: unknown = await res.json().catch(() => null);
+    if (!res.ok) {
+      if (isErrorBody(body)) throw toApiError(body, res.status);
+      throw new AnalyzeApiError(res.status === 429 ? 'RATE_LIMITED' : 'UPSTREAM_ERROR', `Analysis server replied ${res.status}.`, res.status);
+    }
+    return body as AnalysisResult;
+  },
+});
@@ -0,0 +1,177 @@
+import { AnalysisResult, Ingredient, Source } from '../types';
+import { Translate } from '../i18n';
+import { confidenceReasons, describeConsistency } from '../i18n/confidence';
+
+// --- Report export ---
+// Markdown, printable HTML and JSON renderings of one result, for attaching to notes
+// outside the app. Headings follow the UI language; ingredient names stay English.
+
+export interface ReportOptions {
+  t: Translate;
+  locale: string;
+  generatedAt?: Date;
+}
+
+export const reportFileName = (result: AnalysisResult, extension: string) => {
+  const slug = result.productName.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return `pureplate-${slug || 'report'}.${extension}`;
+};
+
+const generatedLine = ({ t, locale, generatedAt = new Date() }: ReportOptions) =>
+  t('export.generated', { date: generatedAt.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' }) });
+
+const scoreLine = (result: AnalysisResult, t: Translate) => {
+  if (result.healthScore === undefined) return `${t('result.score')}: ${t('result.noNutrition')}`;
+  const line = t('export.scoreLine', { score: result.healthScore });
+  const breakdown = result.scoreBreakdown;
+  return breakdown ? `${line} (${t('score.grade', { grade: breakdown.grade, points: breakdown.nutriScorePoints })})` : line;
+};
+
+const confidenceLine = (result: AnalysisResult, t: Translate) =>
+  result.confidence
+    ? `${t(`confidence.${result.confidence.level}`)}: ${confidenceReasons(result, t)}`
+    : '';
+
+const sourceLabel = (source: Source, t: Translate) =>
+  source.kind ? `${source.title} (${t(`source.kind.${source.kind}`)})` : source.title;
+
+// Rows flagged by verify mode carry what the second run said next to the status.
+const statusText = (ing: Ingredient, t: Translate) =>
+  ing.consistency
+    ? `${t(`status.${ing.status}`)} (${t('consistency.low')}: ${describeConsistency(ing.consistency, t)})`
+    : t(`status.${ing.status}`);
+
+const additiveText = (ing: Ingredient, t: Translate) =>
+  (ing.additives || [])
+    .map(a => `${a.ins ? `INS ${a.ins.toUpperCase()} ` : ''}${a.name} (${t(`hazard.${a.hazard}`)})`)
+    .join('; ');
+
+const ingredientName = (ing: Ingredient) => (ing.localName ? `${ing.name} / ${ing.localName}` : ing.name);
+
+const ingredientRows = (result: AnalysisResult, t: Translate) =>
+  result.ingredients.map(ing => [
+    ingredientName(ing),
+    ing.quantity,
+    statusText(ing, t),
+    additiveText(ing, t),
+    ing.description,
+  ]);
+
+const tableHeadings = (t: Translate) =>
+  [t('export.ingredient'), t('export.quantity'), t('export.status'), t('export.additives'), t('export.notes')];
+
+// --- Markdown ---
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ') || ' ';
+
+export const buildMarkdownReport = (result: AnalysisResult, options: ReportOptions): string => {
+  const { t } = options;
+  const lines = [
+    `# ${result.productName}`,
+    '',
+    `_${generatedLine(options)}_`,
+    '',
+    `**${scoreLine(result, t)}**`,
+    '',
+    result.summary,
+    '',
+    ...(result.confidence ? [`_${confidenceLine(result, t)}_`, ''] : []),
+    `## ${t('export.fssaiNotice')}`,
+    '',
+    result.fssaiNotice || t('export.noNotice'),
+    '',
+    `## ${t('panel.ingredients')}`,
+    '',
+    `| ${tableHeadings(t).join(' | ')} |`,
+    `|${' --- |'.repeat(5)}`,
+    ...ingredientRows(result, t).map(row => `| ${row.map(mdCell).join(' | ')} |`),
+    '',
+    `## ${t('result.sources')}`,
+    '',
+    ...(result.sources.length
+      ? result.sources.map(s => `- [${sourceLabel(s, t).replace(/[[\]]/g, '')}](${s.uri})`)
+      : [t('export.noSources')]),
+    '',
+    '---',
+    '',
+    `_${t('footer.note')}_`,
+  ];
+  if (result.additiveDbVersion) lines.push('', `_${t('footer.additiveDb', { version: result.additiveDbVersion })}_`);
+  return `${lines.join('\n')}\n`;
+};
+
+// --- Printable HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: 'Noto Sans', system-ui, sans-serif; color: #0f172a; margin: 2rem; line-height: 1.5; }
+  h1 { margin: 0 0 .25rem; } h2 { margin-top: 2rem; font-size: 1.1rem; text-transform: uppercase; letter-spacing: .05em; }
+  .muted { color: #64748b; font-size: .85rem; } .score { font-size: 1.2rem; font-weight: 700; }
+  .notice { border: 1px solid #fed7aa; background: #fff7ed; padding: .75rem 1rem; border-radius: .5rem; }
+  table { width: 100%; border-collapse: collapse; font-size: .85rem; }
+  th, td { border: 1px solid #e2e8f0; padding: .4rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f8fafc; } tr.harmful td { background: #fff1f2; }
+  a { color: #c2410c; word-break: break-all; }
+`;
+
+export const buildHtmlReport = (result: AnalysisResult, options: ReportOptions & { lang: string }): string => {
+  const { t } = options;
+  const rows = ingredientRows(result, t)
+    .map((row, i) => `<tr class="${result.ingredients[i].status}">${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('\n');
+  const sources = result.sources.length
+    ? `<ul>${result.sources.map(s => `<li><a href="${escapeHtml(s.uri)}">${escapeHtml(sourceLabel(s, t))}</a></li>`).join('')}</ul>`
+    : `<p>${escapeHtml(t('export.noSources'))}</p>`;
+  const confidence = result.confidence ? `<p class="muted">${escapeHtml(confidenceLine(result, t))}</p>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(options.lang)}">
+<head><meta charset="utf-8"><title>${escapeHtml(result.productName)}</title><style>${PRINT_STYLES}</style></head>
+<body>
+<h1>${escapeHtml(result.productName)}</h1>
+<p class="muted">${escapeHtml(generatedLine(options))}</p>
+<p class="score">${escapeHtml(scoreLine(result, t))}</p>
+<p>${escapeHtml(result.summary)}</p>
+${confidence}
+<h2>${escapeHtml(t('export.fssaiNotice'))}</h2>
+<p class="notice">${escapeHtml(result.fssaiNotice || t('export.noNotice'))}</p>
+<h2>${escapeHtml(t('panel.ingredients'))}</h2>
+<table><thead><tr>${tableHeadings(t).map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>
+${rows}
+</tbody></table>
+<h2>${escapeHtml(t('result.sources'))}</h2>
+${sources}
+<p class="muted">${escapeHtml(t('footer.note'))}${result.additiveDbVersion ? ` ${escapeHtml(t('footer.additiveDb', { version: result.additiveDbVersion }))}` : ''}</p>
+</body>
+</html>`;
+};
+
+// --- JSON ---
+
+export const buildJsonReport = (result: AnalysisResult) => `${JSON.stringify(result, null, 2)}\n`;
+
+// --- Browser delivery ---
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Opens the report in its own window and brings up the print dialog, where
+// "Save as PDF" produces the PDF. Returns false when a popup blocker stopped it.
+export const printHtml = (html: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
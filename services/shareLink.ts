@@ -0,0 +1,132 @@
+import { AnalysisResult, ConsistencyCheck, INGREDIENT_STATUSES, VerificationSummary } from '../types';
+import { validateAnalysis } from './analysisParser';
+import { enrichAnalysis } from './analyzerProvider';
+import { assessConfidence } from './sourceCredibility';
+
+// --- Share links ---
+// A result travels in the URL fragment (never sent to a server) as deflated JSON in
+// base64url. Only what the model said is encoded, plus any verify-mode flags; the
+// score, additive verdicts and confidence are recomputed on open, as for a live reply.
+
+export const SHARE_HASH_PREFIX = '#report=';
+const SHARE_VERSION = 1;
+
+export type ShareLinkErrorCode = 'UNSUPPORTED_VERSION' | 'CORRUPT';
+
+export class ShareLinkError extends Error {
+  code: ShareLinkErrorCode;
+
+  constructor(code: ShareLinkErrorCode, message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+    this.code = code;
+  }
+}
+
+interface SharePayload {
+  v: number;
+  r: unknown; // model fields, checked by validateAnalysis on the way back in
+  s: AnalysisResult['sources'];
+  c?: (ConsistencyCheck | null)[]; // verify-mode flags, one per ingredient
+  x?: VerificationSummary;
+}
+
+// Undo the database overrides so the decoder's cross-check lands on the same verdicts.
+const toPayload = (result: AnalysisResult): SharePayload => ({
+  v: SHARE_VERSION,
+  r: {
+    productName: result.productName,
+    summary: result.summary,
+    fssaiNotice: result.fssaiNotice || undefined,
+    declaredAllergens: result.declaredAllergens,
+    vegMark: result.vegMark,
+    nutrition: result.nutrition,
+    ingredients: result.ingredients.map(({ name, localName, quantity, description, origin, status, verdict }) => ({
+      name, localName, quantity, description, origin, status: verdict?.modelStatus ?? status,
+    })),
+  },
+  s: result.sources.map(({ title, uri }) => ({ title, uri })),
+  ...(result.verification && {
+    c: result.ingredients.map(i => i.consistency ?? null),
+    x: result.verification,
+  }),
+});
+
+const pipeBytes = async (bytes: BlobPart, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// Shared links are opened by strangers, so only plain web links survive.
+const safeSources = (raw: unknown): AnalysisResult['sources'] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter((s): s is { title: unknown; uri: string } => typeof s?.uri === 'string' && /^https?:\/\//i.test(s.uri))
+    .map(s => ({ title: typeof s.title === 'string' && s.title ? s.title : s.uri, uri: s.uri }));
+
+const CONSISTENCY_CHANGES: ConsistencyCheck['changed'] = ['quantity', 'status', 'missing'];
+
+const isConsistencyCheck = (raw: unknown): raw is ConsistencyCheck => {
+  const check = raw as ConsistencyCheck;
+  return Array.isArray(check?.changed)
+    && check.changed.length > 0
+    && check.changed.every(c => CONSISTENCY_CHANGES.includes(c))
+    && (check.otherQuantity === undefined || typeof check.otherQuantity === 'string')
+    && (check.otherStatus === undefined || INGREDIENT_STATUSES.includes(check.otherStatus));
+};
+
+const isVerification = (raw: unknown): raw is VerificationSummary => {
+  const summary = raw as VerificationSummary;
+  return [summary?.runs, summary?.changedIngredients, summary?.extraIngredients].every(n => Number.isInteger(n) && n >= 0);
+};
+
+// Verify-mode flags are dropped as a whole unless they still line up with the ingredients.
+const withVerification = (result: AnalysisResult, { c, x }: SharePayload): AnalysisResult => {
+  if (!isVerification(x) || !Array.isArray(c) || c.length !== result.ingredients.length) return result;
+  if (!c.every(check => check === null || isConsistencyCheck(check))) return result;
+  const verified: AnalysisResult = {
+    ...result,
+    ingredients: result.ingredients.map((ing, i) => (c[i] ? { ...ing, consistency: c[i]! } : ing)),
+    verification: x,
+  };
+  return { ...verified, confidence: assessConfidence(verified) };
+};
+
+export const encodeShareFragment = async (result: AnalysisResult): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(toPayload(result)));
+  return `${SHARE_HASH_PREFIX}${toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')))}`;
+};
+
+export const buildShareUrl = async (result: AnalysisResult, base = window.location.href) => {
+  const url = new URL(base);
+  url.hash = await encodeShareFragment(result);
+  return url.toString();
+};
+
+export const isShareFragment = (hash: string) => hash.startsWith(SHARE_HASH_PREFIX);
+
+export const decodeShareFragment = async (hash: string): Promise<AnalysisResult> => {
+  let payload: SharePayload;
+  try {
+    const bytes = await pipeBytes(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareLinkError('CORRUPT', 'The share link is incomplete or damaged.');
+  }
+  if (payload?.v !== SHARE_VERSION) {
+    throw new ShareLinkError('UNSUPPORTED_VERSION', `Share link version ${payload?.v} is not supported.`);
+  }
+  try {
+    return withVerification(enrichAnalysis(validateAnalysis(payload.r), safeSources(payload.s)), payload);
+  } catch {
+    throw new ShareLinkError('CORRUPT', 'The shared analysis is not in the expected shape.');
+  }
+};
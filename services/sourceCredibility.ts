@@ -0,0 +1,138 @@
+import {
+  AnalysisResult,
+  ConfidenceLevel,
+  ConfidenceReason,
+  ConsistencyCheck,
+  Ingredient,
+  ResultConfidence,
+  Source,
+  SourceKind,
+} from '../types';
+import { DOMAINS_BY_KIND } from '../data/sourceDomains';
+import { ingredientNameKey, normaliseQuantity } from './comparison';
+
+// --- Source credibility and cross-run consistency ---
+// Grounding sources are classified by the kind of site they come from, and a result
+// gets a confidence level from its best evidence. Verify mode runs the analysis twice;
+// rows the two runs disagree on are flagged and pull the level down.
+
+export const VERIFY_RUNS = 2;
+
+// Gemini grounding links point at a Google redirect; the chunk title then holds the real domain.
+const REDIRECT_HOSTS = ['vertexaisearch.cloud.google.com'];
+
+export const sourceHost = ({ title, uri }: Pick<Source, 'title' | 'uri'>): string | undefined => {
+  let host: string;
+  try {
+    host = new URL(uri).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+  if (REDIRECT_HOSTS.includes(host)) {
+    const domain = title.trim().toLowerCase();
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain.replace(/^www\./, '') : undefined;
+  }
+  return host.replace(/^www\./, '');
+};
+
+const onDomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+// The brand is usually the first word of the product name ("Maggi", "Britannia"); short
+// words are skipped so "Lay's" or "Real" do not match unrelated sites.
+const brandToken = (productName: string) =>
+  productName.toLowerCase().split(/[^a-z0-9]+/).find(word => word.length >= 5);
+
+// Second-level labels under a country code that belong to the suffix: "co.in", "com.au".
+const SUFFIX_LABELS = ['co', 'com', 'net', 'org', 'gov', 'ac', 'edu'];
+
+// The name a site registered, without subdomains or suffix: "maggi" for www.maggi.co.in,
+// but "blogspot" for maggirecipes.blogspot.com.
+const registeredName = (host: string) => {
+  const labels = host.split('.');
+  const suffixLength = labels.length > 2 && SUFFIX_LABELS.includes(labels[labels.length - 2]) ? 2 : 1;
+  return labels[labels.length - suffixLength - 1];
+};
+
+export const classifySource = (source: Pick<Source, 'title' | 'uri'>, productName: string): SourceKind => {
+  const host = sourceHost(source);
+  if (!host) return 'other';
+  const listed = DOMAINS_BY_KIND.find(([, domains]) => domains.some(domain => onDomain(host, domain)));
+  if (listed) return listed[0];
+  const brand = brandToken(productName);
+  return brand && registeredName(host) === brand ? 'manufacturer' : 'other';
+};
+
+export const classifySources = (sources: Source[], productName: string): Source[] =>
+  sources.map(source => ({ ...source, kind: classifySource(source, productName) }));
+
+// --- Confidence ---
+
+const LEVELS: ConfidenceLevel[] = ['low', 'medium', 'high'];
+
+// More than this share of rows changing between runs means neither run can be trusted.
+const MAX_CHANGED_SHARE = 1 / 3;
+
+const evidence = (result: AnalysisResult): { level: ConfidenceLevel; reason: ConfidenceReason } => {
+  const photoRows = result.ingredients.filter(i => i.origin === 'photo').length;
+  if (photoRows > 0 && photoRows * 2 >= result.ingredients.length) return { level: 'high', reason: 'photoLabel' };
+
+  const kinds = new Set(result.sources.map(s => s.kind ?? 'other'));
+  if (kinds.has('regulator')) return { level: 'high', reason: 'regulatorSource' };
+  if (kinds.has('manufacturer')) return { level: 'high', reason: 'manufacturerSource' };
+  if (kinds.has('retailer')) return { level: 'medium', reason: 'retailerSource' };
+  return { level: 'low', reason: result.sources.length ? 'weakSources' : 'noSources' };
+};
+
+export const assessConfidence = (result: AnalysisResult): ResultConfidence => {
+  const { level, reason } = evidence(result);
+  const { verification } = result;
+  if (!verification) return { level, reasons: [reason] };
+
+  const disagreements = verification.changedIngredients + verification.extraIngredients;
+  if (disagreements === 0) return { level, reasons: [reason, 'runsAgree'] };
+
+  const share = verification.changedIngredients / Math.max(result.ingredients.length, 1);
+  const downgraded = share > MAX_CHANGED_SHARE ? 'low' : LEVELS[Math.max(LEVELS.indexOf(level) - 1, 0)];
+  return { level: downgraded, reasons: [reason, 'runsDisagree'] };
+};
+
+// --- Verify mode ---
+
+// Quantities match when they normalise to the same amount ("15%" and "15 %"), or
+// else read the same once case and spacing are ignored.
+const sameQuantity = (a: string, b: string) => {
+  const first = normaliseQuantity(a);
+  const second = normaliseQuantity(b);
+  if (first && second) return first.per100g === second.per100g;
+  return a.toLowerCase().replace(/\s+/g, '') === b.toLowerCase().replace(/\s+/g, '');
+};
+
+const compareIngredient = (ingredient: Ingredient, other: Ingredient | undefined): ConsistencyCheck | undefined => {
+  if (!other) return { changed: ['missing'] };
+  const changed: ConsistencyCheck['changed'] = [];
+  if (!sameQuantity(ingredient.quantity, other.quantity)) changed.push('quantity');
+  if (ingredient.status !== other.status) changed.push('status');
+  return changed.length ? { changed, otherQuantity: other.quantity, otherStatus: other.status } : undefined;
+};
+
+// The first run stays the result; the second only flags the rows it disagrees with.
+// Rows are matched by name, not by comparison's synonym groups, which would merge distinct rows.
+export const checkConsistency = (first: AnalysisResult, second: AnalysisResult): AnalysisResult => {
+  const others = new Map(second.ingredients.map(ing => [ingredientNameKey(ing), ing]));
+  const firstKeys = new Set(first.ingredients.map(ingredientNameKey));
+
+  const ingredients = first.ingredients.map(({ consistency: _previous, ...ingredient }): Ingredient => {
+    const consistency = compareIngredient(ingredient, others.get(ingredientNameKey(ingredient)));
+    return consistency ? { ...ingredient, consistency } : ingredient;
+  });
+  const verified: AnalysisResult = {
+    ...first,
+    ingredients,
+    verification: {
+      runs: VERIFY_RUNS,
+      changedIngredients: ingredients.filter(ing => ing.consistency).length,
+      extraIngredients: [...others.keys()].filter(key => !firstKeys.has(key)).length,
+    },
+  };
+  return { ...verified, confidence: assessConfidence(verified) };
+};
@@ -0,0 +1,163 @@
+// --- Types ---
+export type IngredientStatus = 'healthy' | 'harmful' | 'neutral';
+
+export const INGREDIENT_STATUSES: IngredientStatus[] = ['healthy', 'harmful', 'neutral'];
+
+// Hazard rating from the bundled additive database (data/additives.ts)
+export type AdditiveHazard = 'none' | 'low' | 'moderate' | 'high';
+
+export interface AdditiveMatch {
+  id: string;
+  ins?: string;
+  name: string;
+  category: string;
+  limitNote: string;
+  hazard: AdditiveHazard;
+}
+
+// Where the final status came from, and what each side said when both had an opinion.
+export interface VerdictCheck {
+  source: 'model' | 'database';
+  modelStatus: IngredientStatus;
+  databaseStatus?: IngredientStatus;
+  conflict: boolean;
+}
+
+// Whether an ingredient row was read off a photographed label or found via web grounding.
+export type IngredientOrigin = 'photo' | 'web';
+
+export const INGREDIENT_ORIGINS: IngredientOrigin[] = ['photo', 'web'];
+
+// Set by verify mode when the second run disagreed about this ingredient.
+export interface ConsistencyCheck {
+  changed: ('quantity' | 'status' | 'missing')[]; // 'missing': the other run did not list it
+  otherQuantity?: string;
+  otherStatus?: IngredientStatus;
+}
+
+export interface Ingredient {
+  name: string;
+  quantity: string;
+  status: IngredientStatus;
+  description: string;
+  origin?: IngredientOrigin;
+  localName?: string; // name in the UI language; `name` stays English for matching
+  additives?: AdditiveMatch[];
+  verdict?: VerdictCheck;
+  consistency?: ConsistencyCheck; // present only on rows flagged low confidence
+}
+
+// Nutrition panel values per 100g (or 100ml). null means the label did not declare it.
+export interface NutritionPer100g {
+  energyKcal: number | null;
+  sugarG: number | null;
+  saturatedFatG: number | null;
+  sodiumMg: number | null;
+  fibreG: number | null;
+  proteinG: number | null;
+  fruitVegPercent: number | null;
+}
+
+export type NutrientKey = keyof NutritionPer100g;
+
+export interface ScoreComponent {
+  nutrient: NutrientKey;
+  label: string;
+  value: number | null;
+  unit: string;
+  points: number; // Nutri-Score points for this nutrient
+  contribution: number; // effect on the 0-100 health score, negative for penalties
+}
+
+export type NutriGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export interface HealthScoreBreakdown {
+  baseline: number;
+  nutriScorePoints: number;
+  grade: NutriGrade;
+  components: ScoreComponent[];
+  proteinCapped: boolean;
+}
+
+export type LabelPanel = 'ingredients' | 'nutrition';
+
+// A photographed pack panel, sent to the analyzer as inline image data.
+export interface LabelImage {
+  id: string;
+  panel: LabelPanel;
+  mimeType: string;
+  data: string; // base64, without the data: URL prefix
+}
+
+// Green-dot / brown-dot declaration printed on Indian packs.
+export type VegMark = 'veg' | 'non-veg' | 'unknown';
+
+export const VEG_MARKS: VegMark[] = ['veg', 'non-veg', 'unknown'];
+
+export type AllergenId = 'peanut' | 'treeNuts' | 'milk' | 'gluten' | 'soy' | 'sesame' | 'egg' | 'fish' | 'shellfish' | 'mustard';
+
+export type DietId = 'any' | 'vegetarian' | 'vegan' | 'jain';
+
+// A household member's dietary needs, stored locally and checked against every result.
+export interface DietaryProfile {
+  id: string;
+  name: string;
+  allergens: AllergenId[];
+  diet: DietId;
+  diabetic: boolean;
+  avoid: string[]; // free-text ingredients to flag, e.g. "palm oil"
+}
+
+// UI and analysis output languages (see i18n/languages.ts).
+export type LanguageCode = 'en' | 'hi' | 'ta' | 'te' | 'bn' | 'kn' | 'mr';
+
+// What kind of site a grounding source is (see services/sourceCredibility.ts).
+export type SourceKind = 'regulator' | 'manufacturer' | 'retailer' | 'other';
+
+export const SOURCE_KINDS: SourceKind[] = ['regulator', 'manufacturer', 'retailer', 'other'];
+
+export interface Source {
+  title: string;
+  uri: string;
+  kind?: SourceKind;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export type ConfidenceReason =
+  | 'photoLabel'
+  | 'regulatorSource'
+  | 'manufacturerSource'
+  | 'retailerSource'
+  | 'weakSources'
+  | 'noSources'
+  | 'runsAgree'
+  | 'runsDisagree';
+
+export interface ResultConfidence {
+  level: ConfidenceLevel;
+  reasons: ConfidenceReason[];
+}
+
+// Outcome of verify mode: how the second run compared with the first.
+export interface VerificationSummary {
+  runs: number;
+  changedIngredients: number; // rows of this result flagged with a ConsistencyCheck
+  extraIngredients: number; // rows only the second run listed
+}
+
+export interface AnalysisResult {
+  productName: string;
+  summary: string;
+  ingredients: Ingredient[];
+  sources: Source[];
+  fssaiNotice?: string;
+  declaredAllergens?: string[]; // allergen statement printed on the pack
+  vegMark?: VegMark;
+  healthScore?: number; // 0-100, computed by services/healthScore.ts
+  nutrition?: NutritionPer100g;
+  scoreBreakdown?: HealthScoreBreakdown;
+  additiveDbVersion?: string;
+  confidence?: ResultConfidence; // computed by services/sourceCredibility.ts
+  verification?: VerificationSummary;
+}
@@ -1,13 +1,24 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
+// The client build and the Node entry points (`vite build --ssr`: the analysis server
+// and the batch command) share this file. Only the client gets build-time settings inlined; the server reads its
+// environment, including the API key, when it starts.
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-  define: {
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+  publicDir: isSsrBuild ? false : 'public',
+  define: isSsrBuild ? {} : {
+    'process.env.ANALYZER_PROVIDER': JSON.stringify(process.env.ANALYZER_PROVIDER),
+    'process.env.ANALYZER_MODEL': JSON.stringify(process.env.ANALYZER_MODEL),
+    'process.env.CACHE_TTL_HOURS': JSON.stringify(process.env.CACHE_TTL_HOURS),
+  },
+  server: {
+    proxy: {
+      '/api': `http://localhost:${process.env.PORT || 8787}`,
+    },
   },
   build: {
-    outDir: 'dist',
+    outDir: isSsrBuild ? 'dist-server' : 'dist',
+    rollupOptions: isSsrBuild ? { input: { main: 'server/main.ts', batch: 'server/batch.ts' } } : {},
   },
-});
+}));